@@ -1,14 +1,29 @@
 // src/__itemCompletionShared.ts
 import * as vscode from "vscode";
 import { ItemEntry, ItemLookup } from "./stardewIds";
+import {
+  appendItemMetadataMarkdown,
+  conditionalItemDetail,
+  hasItemMetadata,
+} from "./itemMetadata";
+import { formatItemDisplayName, getItemDisplayNames } from "./localization";
+import { buildItemSearchIndex, ItemSearchIndex, searchItems } from "./itemSearchIndex";
 
 export const DEFAULT_INGREDIENT_PLACEHOLDER = "__INGREDIENT__";
 
+// Stage B returns at most this many items; the list is marked incomplete so
+// VS Code re-queries as the user keeps typing.
+const MAX_STAGE_B_RESULTS = 200;
+
 export interface SharedItemCompletionState {
   items: ItemEntry[];
   categoryCodes: string[];
+  search: ItemSearchIndex;
 }
 
+// One state per registry snapshot, shared by item and recipe completion
+const sharedStateCache = new WeakMap<ItemLookup, SharedItemCompletionState>();
+
 /**
  * Collect unique category codes like O, BC, WP from qualified IDs.
  */
@@ -27,7 +42,7 @@ function isNumericId(id: string): boolean {
 
 /**
  * Sort key (Stage B) so:
- * - vanilla first, then installed, then custom
+ * - vanilla first, then installed/workspace, then custom
  * - numeric IDs before non-numeric
  * - numeric IDs sorted numerically
  * - then lexicographic ID
@@ -36,7 +51,7 @@ function isNumericId(id: string): boolean {
 function makeStageBSortKey(entry: ItemEntry): string {
   let sourceRank = 2;
   if (entry.source === "vanilla") sourceRank = 0;
-  else if (entry.source === "installed") sourceRank = 1;
+  else if (entry.source === "installed" || entry.source === "workspace") sourceRank = 1;
 
   const id = entry.id;
   const numericFlag = isNumericId(id) ? "0" : "1";
@@ -52,28 +67,6 @@ function makeStageBSortKey(entry: ItemEntry): string {
   return `${sourceRank}_${numericFlag}_${idKey}_${qKey}`;
 }
 
-/**
- * Stage B match ranking:
- * Prefer contiguous substring matches in:
- *  0) name
- *  1) id
- *  2) qualifiedId
- * Anything else: no match.
- */
-function getStageBMatchRank(entry: ItemEntry, searchLower: string): number {
-  if (!searchLower) return 0;
-
-  const name = entry.name.toLowerCase();
-  const id = entry.id.toLowerCase();
-  const qid = entry.qualifiedId.toLowerCase();
-
-  if (name.includes(searchLower)) return 0;
-  if (id.includes(searchLower)) return 1;
-  if (qid.includes(searchLower)) return 2;
-
-  return 99;
-}
-
 /**
  * Insert a comma after the closing quote of THIS string node if needed.
  * We only do it when the next non-whitespace char is NOT:
@@ -130,7 +123,7 @@ function buildVariantsForSingleEntry(args: {
     ? []
     : buildCommaAfterStringEdits(document, valueNodeOffset, valueNodeLength);
 
-  const stageCFilter = `${entry.qualifiedId} ${entry.id} ${entry.name} ${
+  const stageCFilter = `${entry.qualifiedId} ${entry.id} ${getItemDisplayNames(entry).join(" ")} ${
     entry.modId ?? ""
   }`;
 
@@ -161,7 +154,7 @@ function buildVariantsForSingleEntry(args: {
     );
     ci.insertText = new vscode.SnippetString(entry.id);
     ci.range = replaceRange;
-    ci.detail = `[${entry.category}] Bare ID for ${entry.name}`;
+    ci.detail = `[${entry.category}] Bare ID for ${entry.name}${conditionalItemDetail(entry)}`;
     ci.filterText = stageCFilter;
     ci.sortText = `0_${variantIndex++}`;
     ci.additionalTextEdits = commaEdits;
@@ -177,7 +170,7 @@ function buildVariantsForSingleEntry(args: {
     );
     ci.insertText = new vscode.SnippetString(entry.qualifiedId);
     ci.range = replaceRange;
-    ci.detail = `[${entry.category}] Qualified ID for ${entry.name}`;
+    ci.detail = `[${entry.category}] Qualified ID for ${entry.name}${conditionalItemDetail(entry)}`;
     ci.filterText = stageCFilter;
     ci.sortText = `0_${variantIndex++}`;
     ci.additionalTextEdits = commaEdits;
@@ -260,21 +253,27 @@ function buildVariantsForSingleEntry(args: {
 }
 
 /**
- * Build once and share between itemCompletion and recipeCompletion,
- * so behavior stays identical.
+ * Build once per registry snapshot, on first use, and share between itemCompletion
+ * and recipeCompletion, so behavior stays identical.
  */
 export function buildSharedItemCompletionState(
   lookups: ItemLookup
 ): SharedItemCompletionState {
+  const cached = sharedStateCache.get(lookups);
+  if (cached) return cached;
+
   const items: ItemEntry[] = Array.from(lookups.byQualifiedId.values());
   items.sort((a, b) =>
     makeStageBSortKey(a).localeCompare(makeStageBSortKey(b))
   );
 
-  return {
+  const state: SharedItemCompletionState = {
     items,
     categoryCodes: buildCategoryCodes(items),
+    search: buildItemSearchIndex(items),
   };
+  sharedStateCache.set(lookups, state);
+  return state;
 }
 
 /**
@@ -282,8 +281,10 @@ export function buildSharedItemCompletionState(
  *
  * - Stage A: empty token, "(" token, or ingredientPlaceholder -> show category prefixes
  * - Stage C: exact qualifiedId -> variants
- * - Stage B: ranked match (name/id/qid), contiguous substring only,
- *            inserts qualifiedId, adds comma edits
+ * - Stage B: indexed search over names and IDs (typo-tolerant), capped at
+ *            MAX_STAGE_B_RESULTS, inserts qualifiedId, adds comma edits
+ *
+ * Returns an incomplete CompletionList when Stage B results were capped.
  */
 export function buildItemIdCompletionsForToken(args: {
   lookups: ItemLookup;
@@ -302,7 +303,7 @@ export function buildItemIdCompletionsForToken(args: {
 
   // If true, do not apply comma insertion edits
   noComma?: boolean;
-}): vscode.CompletionItem[] {
+}): vscode.CompletionList {
   const {
     lookups,
     state,
@@ -345,20 +346,23 @@ export function buildItemIdCompletionsForToken(args: {
       results.push(ci);
     }
 
-    return results;
+    return new vscode.CompletionList(results, false);
   }
 
   // Stage C
   const exactEntry = lookups.byQualifiedId.get(tokenTrimmed);
   if (exactEntry) {
-    return buildVariantsForSingleEntry({
-      entry: exactEntry,
-      replaceRange,
-      document,
-      valueNodeOffset,
-      valueNodeLength,
-      noComma,
-    });
+    return new vscode.CompletionList(
+      buildVariantsForSingleEntry({
+        entry: exactEntry,
+        replaceRange,
+        document,
+        valueNodeOffset,
+        valueNodeLength,
+        noComma,
+      }),
+      false
+    );
   }
 
   // Stage B
@@ -375,19 +379,17 @@ export function buildItemIdCompletionsForToken(args: {
     : tokenTrimmed;
   const searchLower = searchPart.toLowerCase();
 
-  for (const entry of state.items) {
-    if (categoryFilter) {
-      const entryCatMatch = entry.qualifiedId.match(/^\(([A-Z]+)\)/);
-      if (!entryCatMatch || entryCatMatch[1] !== categoryFilter) continue;
-    }
-
-    const rank = getStageBMatchRank(entry, searchLower);
-    if (searchLower && rank === 99) continue;
+  const { matches, truncated } = searchItems(state.search, searchLower, {
+    categoryFilter,
+    limit: MAX_STAGE_B_RESULTS,
+  });
 
+  for (const { entry, rank, fuzzy } of matches) {
     // Preserve your current label style from itemCompletion.ts
+    const displayName = formatItemDisplayName(entry);
     const label = categoryFilter
-      ? `(${categoryFilter})${entry.id} — ${entry.name}`
-      : `${entry.qualifiedId} — ${entry.name}`;
+      ? `(${categoryFilter})${entry.id} — ${displayName}`
+      : `${entry.qualifiedId} — ${displayName}`;
 
     const ci = new vscode.CompletionItem(
       label,
@@ -396,17 +398,27 @@ export function buildItemIdCompletionsForToken(args: {
 
     ci.insertText = new vscode.SnippetString(entry.qualifiedId);
     ci.range = replaceRange;
-    ci.detail = `[${entry.category}] Qualified ID for ${entry.name}`;
-
-    if (categoryFilter && !searchLower) {
-      ci.filterText = `${entry.qualifiedId} ${entry.id} ${entry.name}`;
+    ci.detail = `[${entry.category}] Qualified ID for ${entry.name}${conditionalItemDetail(entry)}`;
+
+    const names = getItemDisplayNames(entry).join(" ");
+    if (fuzzy) {
+      // Typo matches wouldn't survive VS Code's own filtering on the typed text
+      ci.filterText = `${tokenTrimmed} ${names} ${entry.id}`;
+    } else if (categoryFilter && !searchLower) {
+      ci.filterText = `${entry.qualifiedId} ${entry.id} ${names}`;
     } else {
-      ci.filterText = `${entry.name} ${entry.id} ${entry.qualifiedId}`;
+      ci.filterText = `${names} ${entry.id} ${entry.qualifiedId}`;
     }
 
     ci.sortText = `${rank.toString().padStart(2, "0")}_${makeStageBSortKey(
       entry
     )}`;
+
+    if (hasItemMetadata(entry)) {
+      const doc = new vscode.MarkdownString();
+      appendItemMetadataMarkdown(doc, entry);
+      ci.documentation = doc;
+    }
     ci.additionalTextEdits = commaEdits;
 
     if (triggerSuggestCmd) {
@@ -419,5 +431,5 @@ export function buildItemIdCompletionsForToken(args: {
     results.push(ci);
   }
 
-  return results;
+  return new vscode.CompletionList(results, truncated);
 }
@@ -0,0 +1,205 @@
+// src/cacheStorage.ts
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { parse, ParseError } from "jsonc-parser";
+
+/**
+ * Generated files live in the extension's global storage, not in its install folder
+ * (which is replaced on every update and may be read-only).
+ */
+export const INSTALLED_INDEX_FILE = "installed-mod-ids.json";
+export const VANILLA_CATALOG_FILE = "stardew-ids.json";
+export const INSTALLED_MOD_CACHE_FILE = "installed-mod-cache.json";
+export const INSTALLED_INDEX_HISTORY_FILE = "installed-index-history.json";
+
+// Bump when the layout of a generated file changes; older files are then rebuilt.
+export const INSTALLED_INDEX_FORMAT_VERSION = 11;
+export const VANILLA_CATALOG_FORMAT_VERSION = 1;
+export const INSTALLED_MOD_CACHE_FORMAT_VERSION = 10;
+export const INSTALLED_INDEX_HISTORY_FORMAT_VERSION = 1;
+
+/**
+ * Stored under the "meta" key of every generated file.
+ * Extra keys record the inputs the file was built from (modsRoot, contentRoot, ...).
+ */
+export interface CacheMeta {
+  formatVersion: number;
+  extensionVersion: string;
+  builtAt: string;
+  [input: string]: unknown;
+}
+
+export type CacheReadResult =
+  | { data: any; meta: CacheMeta; staleReason?: undefined }
+  | { data: null; meta?: undefined; staleReason: string };
+
+export function getExtensionVersion(context: vscode.ExtensionContext): string {
+  return String(context.extension?.packageJSON?.version ?? "0.0.0");
+}
+
+export function getCachePath(context: vscode.ExtensionContext, fileName: string): string {
+  return path.join(context.globalStorageUri.fsPath, fileName);
+}
+
+/**
+ * JSON with sorted keys, so rewrites of unchanged data compare equal.
+ */
+export function stableStringify(value: any): string {
+  const seen = new WeakSet<object>();
+
+  const normalize = (v: any): any => {
+    if (v === null || v === undefined) return v;
+
+    if (typeof v !== "object") return v;
+
+    if (seen.has(v)) {
+      return v;
+    }
+    seen.add(v);
+
+    if (Array.isArray(v)) {
+      return v.map(normalize);
+    }
+
+    const out: Record<string, any> = {};
+    for (const key of Object.keys(v).sort((a, b) => a.localeCompare(b))) {
+      out[key] = normalize(v[key]);
+    }
+    return out;
+  };
+
+  return JSON.stringify(normalize(value), null, 2);
+}
+
+export function tryReadJsoncObject(fullPath: string): any | null {
+  if (!fs.existsSync(fullPath)) return null;
+
+  try {
+    const text = fs.readFileSync(fullPath, "utf8");
+    const errors: ParseError[] = [];
+    const json = parse(text, errors, { allowTrailingComma: true }) as any;
+
+    if (!json || typeof json !== "object") return null;
+    return json;
+  } catch {
+    return null;
+  }
+}
+
+function withoutMeta(json: any): any {
+  if (!json || typeof json !== "object") return json;
+  const { meta: _meta, ...rest } = json;
+  return rest;
+}
+
+/**
+ * Why a stored meta doesn't match what the caller expects, or undefined if it does.
+ * `inputs` are compared by value (e.g. { modsRoot }).
+ */
+function describeStaleMeta(
+  meta: any,
+  formatVersion: number,
+  inputs: Record<string, unknown>,
+  extensionVersion?: string
+): string | undefined {
+  if (!meta || typeof meta !== "object") {
+    return "no cache metadata (written by an older version)";
+  }
+  if (meta.formatVersion !== formatVersion) {
+    return `format version ${meta.formatVersion ?? "?"} (expected ${formatVersion})`;
+  }
+  if (extensionVersion !== undefined && meta.extensionVersion !== extensionVersion) {
+    return `built by extension ${meta.extensionVersion ?? "?"} (now ${extensionVersion})`;
+  }
+  for (const [key, value] of Object.entries(inputs)) {
+    if (meta[key] !== value) {
+      return `${key} changed`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read a generated file from storage and validate its meta.
+ * Pass `extensionVersion` to also treat files from another extension version as stale.
+ */
+export function readCacheFile(
+  context: vscode.ExtensionContext,
+  fileName: string,
+  expected: {
+    formatVersion: number;
+    inputs?: Record<string, unknown>;
+    extensionVersion?: string;
+  }
+): CacheReadResult {
+  const json = tryReadJsoncObject(getCachePath(context, fileName));
+  if (!json) {
+    return { data: null, staleReason: "not built yet" };
+  }
+
+  const staleReason = describeStaleMeta(
+    json.meta,
+    expected.formatVersion,
+    expected.inputs ?? {},
+    expected.extensionVersion
+  );
+  if (staleReason) {
+    return { data: null, staleReason };
+  }
+
+  return { data: json, meta: json.meta as CacheMeta };
+}
+
+/**
+ * Write a generated file (with fresh meta) unless the stored copy already has the same
+ * data and a still-valid meta. builtAt alone never counts as a change.
+ */
+export function writeCacheFile(
+  context: vscode.ExtensionContext,
+  fileName: string,
+  data: Record<string, any>,
+  meta: { formatVersion: number; inputs?: Record<string, unknown> }
+): { changed: boolean; fullPath: string } {
+  const fullPath = getCachePath(context, fileName);
+  const extensionVersion = getExtensionVersion(context);
+  const inputs = meta.inputs ?? {};
+
+  const prev = tryReadJsoncObject(fullPath);
+  if (
+    prev &&
+    !describeStaleMeta(prev.meta, meta.formatVersion, inputs, extensionVersion) &&
+    stableStringify(withoutMeta(prev)) === stableStringify(withoutMeta(data))
+  ) {
+    return { changed: false, fullPath };
+  }
+
+  const fullMeta: CacheMeta = {
+    formatVersion: meta.formatVersion,
+    extensionVersion,
+    builtAt: new Date().toISOString(),
+    ...inputs,
+  };
+
+  fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+  fs.writeFileSync(fullPath, stableStringify({ ...withoutMeta(data), meta: fullMeta }), "utf8");
+  return { changed: true, fullPath };
+}
+
+/**
+ * Remove a file that older versions generated inside the install folder (data/<fileName>).
+ */
+export function removeLegacyGeneratedFile(
+  context: vscode.ExtensionContext,
+  fileName: string
+): void {
+  const legacyPath = context.asAbsolutePath(path.join("data", fileName));
+  try {
+    if (fs.existsSync(legacyPath)) {
+      fs.unlinkSync(legacyPath);
+      console.log(`[Stardew Modding Schema] Removed legacy generated file ${legacyPath}`);
+    }
+  } catch {
+    // read-only install: leaving it is harmless, it's no longer read
+  }
+}
@@ -0,0 +1,432 @@
+// src/contextTags.ts
+import * as vscode from "vscode";
+import { parseTree, findNodeAtOffset, Node as JsonNode } from "jsonc-parser";
+import { ItemEntry, ItemLookup, loadDataFile } from "./stardewIds";
+import { ItemRegistry, updateDocumentsOnRegistryChange } from "./itemRegistry";
+import { ITEM_CATEGORIES } from "./itemMetadata";
+
+export interface ContextTagIndex {
+  byTag: Map<string, ItemEntry[]>; // tag -> items carrying it
+  knownTags: Set<string>; // every tag we consider valid (items + curated vanilla list)
+}
+
+/**
+ * Fields whose values reference existing tags (Machines, FishPondData, TailoringRecipes, ...).
+ * Unknown tags here are flagged, since they silently match nothing in-game.
+ */
+const TAG_REFERENCE_FIELDS = new Set<string>([
+  "RequiredTags",
+  "FirstItemTags",
+  "SecondItemTags",
+]);
+
+/**
+ * Fields that DEFINE tags (Data/Objects etc.). Completion only, never flagged.
+ */
+const TAG_DEFINITION_FIELDS = new Set<string>(["ContextTags"]);
+
+/**
+ * Tags the game generates on the fly; never flag these as unknown. The per-item id_* and
+ * item_* tags aren't listed here: they're generated from the registry (getAutomaticTags),
+ * so a misspelled one is still caught.
+ */
+const DYNAMIC_TAG_PATTERNS: RegExp[] = [
+  /^quality_(none|silver|gold|iridium|qi)$/,
+  /^preserve_sheet_index_/,
+];
+
+const MAX_HOVER_ITEMS = 25;
+
+// Tag completion returns at most this many tags; the list is marked incomplete so
+// VS Code re-queries as the user keeps typing (there's an id_/item_ tag per item).
+const MAX_TAG_COMPLETIONS = 200;
+
+/**
+ * Same normalization the game applies to generated tags: lowercase, spaces to underscores,
+ * apostrophes dropped.
+ */
+function sanitizeContextTag(raw: string): string {
+  return raw.trim().toLowerCase().replace(/\s+/g, "_").replace(/'/g, "");
+}
+
+/**
+ * Tags the game adds to every item automatically (id_*, item_*, category_*).
+ */
+function getAutomaticTags(entry: ItemEntry): string[] {
+  const tags: string[] = [];
+
+  const m = /^\(([A-Za-z]+)\)(.+)$/.exec(entry.qualifiedId);
+  if (m) {
+    tags.push(`id_${m[1].toLowerCase()}_${m[2].toLowerCase()}`);
+  }
+
+  // The game uses the internal Name. Catalogs and indexes built before it was recorded
+  // only have the display name; mods usually name items after their ID, so both are
+  // accepted there.
+  if (entry.internalName) {
+    tags.push(`item_${sanitizeContextTag(entry.internalName)}`);
+  } else {
+    tags.push(`item_${sanitizeContextTag(entry.name)}`);
+    if (!/^[0-9]+$/.test(entry.id)) {
+      const idTag = `item_${sanitizeContextTag(entry.id)}`;
+      if (idTag !== tags[tags.length - 1]) tags.push(idTag);
+    }
+  }
+
+  if (entry.itemCategory !== undefined) {
+    const cat = ITEM_CATEGORIES[entry.itemCategory];
+    if (cat) tags.push(cat.contextTag);
+  }
+
+  return tags;
+}
+
+// One index per registry snapshot (shared with item query filters)
+const indexCache = new WeakMap<ItemLookup, ContextTagIndex>();
+
+export function getContextTagIndex(
+  context: vscode.ExtensionContext,
+  lookups: ItemLookup
+): ContextTagIndex {
+  let index = indexCache.get(lookups);
+  if (!index) {
+    index = buildContextTagIndex(context, lookups);
+    indexCache.set(lookups, index);
+  }
+  return index;
+}
+
+/**
+ * Build tag -> items from every entry's ContextTags plus automatic tags.
+ */
+export function buildContextTagIndex(
+  context: vscode.ExtensionContext,
+  lookups: ItemLookup
+): ContextTagIndex {
+  const byTag = new Map<string, ItemEntry[]>();
+  const knownTags = new Set<string>();
+
+  const add = (tag: string, entry: ItemEntry) => {
+    const key = tag.trim().toLowerCase();
+    if (!key) return;
+    const list = byTag.get(key) ?? [];
+    list.push(entry);
+    byTag.set(key, list);
+    knownTags.add(key);
+  };
+
+  for (const entry of lookups.byQualifiedId.values()) {
+    for (const tag of entry.contextTags ?? []) add(tag, entry);
+    for (const tag of getAutomaticTags(entry)) add(tag, entry);
+  }
+
+  const curated = loadDataFile(context, "stardew-context-tags");
+  if (curated && Array.isArray(curated.tags)) {
+    for (const tag of curated.tags) {
+      if (typeof tag === "string" && tag.trim()) knownTags.add(tag.trim().toLowerCase());
+    }
+  }
+
+  for (const cat of Object.values(ITEM_CATEGORIES)) {
+    knownTags.add(cat.contextTag);
+  }
+
+  console.log(
+    `[Stardew Modding Schema] Context tag index: ${knownTags.size} tags (${byTag.size} carried by known items).`
+  );
+
+  return { byTag, knownTags };
+}
+
+export function isKnownTag(index: ContextTagIndex, tag: string): boolean {
+  const key = tag.toLowerCase();
+  if (index.knownTags.has(key)) return true;
+  return DYNAMIC_TAG_PATTERNS.some((re) => re.test(key));
+}
+
+/* ------------------------------------------------------------------------- */
+/*  AST helpers                                                              */
+/* ------------------------------------------------------------------------- */
+
+function getPropertyKeyName(propNode: JsonNode | undefined): string | undefined {
+  if (!propNode || propNode.type !== "property" || !propNode.children?.length) return;
+  const keyNode = propNode.children[0];
+  if (keyNode.type !== "string") return;
+  return String(keyNode.value);
+}
+
+/**
+ * For a string VALUE node, the name of the tag field it belongs to:
+ *   "RequiredTags": ["tag", ...]   or   "RequiredTags": "tag"
+ */
+function getTagFieldForStringNode(node: JsonNode): string | undefined {
+  if (node.type !== "string") return;
+  const parent = node.parent;
+  if (!parent) return;
+
+  if (parent.type === "array") {
+    return getPropertyKeyName(parent.parent);
+  }
+
+  if (parent.type === "property" && parent.children?.[1] === node) {
+    return getPropertyKeyName(parent);
+  }
+
+  return;
+}
+
+function isTagField(field: string | undefined): boolean {
+  return !!field && (TAG_REFERENCE_FIELDS.has(field) || TAG_DEFINITION_FIELDS.has(field));
+}
+
+interface TagSpan {
+  tag: string; // without "!" negation
+  start: number; // offset in the document
+  end: number;
+}
+
+/**
+ * Split a tag string (comma separated, optional "!" negation) into document spans.
+ */
+function splitTagSpans(node: JsonNode): TagSpan[] {
+  const value = String(node.value ?? "");
+  const base = node.offset + 1;
+  const spans: TagSpan[] = [];
+
+  const re = /[^,]+/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(value)) !== null) {
+    let part = m[0];
+    let start = m.index;
+
+    const leading = part.length - part.trimStart().length;
+    start += leading;
+    part = part.trim();
+    if (part.startsWith("!")) {
+      const negated = part.slice(1);
+      start += 1 + (negated.length - negated.trimStart().length);
+      part = negated.trim();
+    }
+    if (!part) continue;
+
+    spans.push({ tag: part, start: base + start, end: base + start + part.length });
+  }
+
+  return spans;
+}
+
+/* ------------------------------------------------------------------------- */
+/*  Diagnostics                                                              */
+/* ------------------------------------------------------------------------- */
+
+function collectUnknownTagDiagnostics(
+  document: vscode.TextDocument,
+  index: ContextTagIndex
+): vscode.Diagnostic[] {
+  const root = parseTree(document.getText());
+  if (!root) return [];
+
+  const diagnostics: vscode.Diagnostic[] = [];
+
+  const checkStringNode = (node: JsonNode) => {
+    for (const span of splitTagSpans(node)) {
+      if (span.tag.includes("{{")) continue; // CP tokens resolve at runtime
+      if (isKnownTag(index, span.tag)) continue;
+
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(document.positionAt(span.start), document.positionAt(span.end)),
+        `Unknown context tag '${span.tag}': no vanilla or installed item has it, so it matches nothing in-game.`,
+        vscode.DiagnosticSeverity.Warning
+      );
+      diagnostic.source = "Stardew Modding Schema";
+      diagnostics.push(diagnostic);
+    }
+  };
+
+  const walk = (node: JsonNode) => {
+    if (node.type === "property") {
+      const key = getPropertyKeyName(node);
+      const value = node.children?.[1];
+      if (key && TAG_REFERENCE_FIELDS.has(key) && value) {
+        if (value.type === "string") checkStringNode(value);
+        if (value.type === "array") {
+          for (const child of value.children ?? []) {
+            if (child.type === "string") checkStringNode(child);
+          }
+        }
+      }
+    }
+    for (const child of node.children ?? []) walk(child);
+  };
+
+  walk(root);
+  return diagnostics;
+}
+
+/* ------------------------------------------------------------------------- */
+/*  Registration                                                             */
+/* ------------------------------------------------------------------------- */
+
+export function registerContextTagSupport(
+  context: vscode.ExtensionContext,
+  registry: ItemRegistry
+): vscode.Disposable {
+  // Built on first use per registry snapshot
+  const tagIndex = () => getContextTagIndex(context, registry.lookup);
+  const disposables: vscode.Disposable[] = [];
+
+  const selector: vscode.DocumentSelector = [
+    { pattern: "**/*.json" },
+    { pattern: "**/*.jsonc" },
+  ];
+
+  const getTagAtPosition = (
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): { field: string; span?: TagSpan; node: JsonNode } | undefined => {
+    const root = parseTree(document.getText());
+    if (!root) return;
+
+    const offset = document.offsetAt(position);
+    const node = findNodeAtOffset(root, offset);
+    if (!node || node.type !== "string") return;
+
+    const field = getTagFieldForStringNode(node);
+    if (!field || !isTagField(field)) return;
+
+    const span = splitTagSpans(node).find((s) => offset >= s.start && offset <= s.end);
+    return { field, span, node };
+  };
+
+  // Completion
+  disposables.push(
+    vscode.languages.registerCompletionItemProvider(
+      selector,
+      {
+        provideCompletionItems(document, position) {
+          const hit = getTagAtPosition(document, position);
+          if (!hit) return;
+
+          const offset = document.offsetAt(position);
+          const value = String(hit.node.value ?? "");
+          const inner = offset - (hit.node.offset + 1);
+
+          // Replace the current comma-separated segment (after any "!")
+          let start = value.lastIndexOf(",", inner - 1) + 1;
+          while (start < value.length && /[\s!]/.test(value[start])) start++;
+          let end = value.indexOf(",", inner);
+          if (end < 0) end = value.length;
+          while (end > start && /\s/.test(value[end - 1])) end--;
+
+          const range = new vscode.Range(
+            document.positionAt(hit.node.offset + 1 + start),
+            document.positionAt(hit.node.offset + 1 + Math.max(start, end))
+          );
+
+          // Tags containing what's typed so far; prefix matches first, then tags items carry
+          const typed = value.slice(start, Math.max(start, inner)).trim().toLowerCase();
+          const index = tagIndex();
+          const matches: { tag: string; rank: number; carriers: number }[] = [];
+          for (const tag of index.knownTags) {
+            const at = typed ? tag.indexOf(typed) : 0;
+            if (at < 0) continue;
+            const carriers = index.byTag.get(tag)?.length ?? 0;
+            matches.push({ tag, rank: (at === 0 ? 0 : 2) + (carriers ? 0 : 1), carriers });
+          }
+          matches.sort((a, b) => a.rank - b.rank || (a.tag < b.tag ? -1 : a.tag > b.tag ? 1 : 0));
+
+          const items: vscode.CompletionItem[] = [];
+          for (const { tag, rank, carriers } of matches.slice(0, MAX_TAG_COMPLETIONS)) {
+            const ci = new vscode.CompletionItem(tag, vscode.CompletionItemKind.EnumMember);
+            ci.range = range;
+            ci.detail = carriers
+              ? `Context tag (${carriers} item${carriers === 1 ? "" : "s"})`
+              : "Context tag";
+            ci.sortText = `${rank}_${tag}`;
+            items.push(ci);
+          }
+          return new vscode.CompletionList(items, true);
+        },
+      },
+      '"',
+      ",",
+      "!",
+      "_"
+    )
+  );
+
+  // Hover
+  disposables.push(
+    vscode.languages.registerHoverProvider(selector, {
+      provideHover(document, position) {
+        try {
+          const hit = getTagAtPosition(document, position);
+          if (!hit?.span) return;
+
+          const tag = hit.span.tag;
+          const index = tagIndex();
+          const carriers = index.byTag.get(tag.toLowerCase()) ?? [];
+
+          const md = new vscode.MarkdownString();
+          md.appendMarkdown(`**Context tag** \`${tag}\`\n\n`);
+
+          if (carriers.length === 0) {
+            md.appendMarkdown(
+              isKnownTag(index, tag)
+                ? "_Known tag, but no indexed item carries it._\n"
+                : "_No vanilla or installed item carries this tag._\n"
+            );
+          } else {
+            md.appendMarkdown(`Carried by ${carriers.length} item(s):\n`);
+            for (const e of carriers.slice(0, MAX_HOVER_ITEMS)) {
+              md.appendMarkdown(`- \`${e.qualifiedId}\` • ${e.name} (${e.modId})\n`);
+            }
+            if (carriers.length > MAX_HOVER_ITEMS) {
+              md.appendMarkdown(`\n_+${carriers.length - MAX_HOVER_ITEMS} more_\n`);
+            }
+          }
+
+          md.isTrusted = false;
+          const range = new vscode.Range(
+            document.positionAt(hit.span.start),
+            document.positionAt(hit.span.end)
+          );
+          return new vscode.Hover(md, range);
+        } catch {
+          return;
+        }
+      },
+    })
+  );
+
+  // Diagnostics
+  const diagnostics = vscode.languages.createDiagnosticCollection("stardew-context-tags");
+  disposables.push(diagnostics);
+
+  const update = (doc: vscode.TextDocument) => {
+    const config = vscode.workspace.getConfiguration("stardewModdingSchema");
+    if (
+      (doc.languageId !== "json" && doc.languageId !== "jsonc") ||
+      config.get<boolean>("validateContextTags") === false
+    ) {
+      diagnostics.delete(doc.uri);
+      return;
+    }
+    diagnostics.set(doc.uri, collectUnknownTagDiagnostics(doc, tagIndex()));
+  };
+
+  vscode.workspace.textDocuments.forEach(update);
+  disposables.push(
+    vscode.workspace.onDidOpenTextDocument(update),
+    vscode.workspace.onDidChangeTextDocument((e) => update(e.document)),
+    vscode.workspace.onDidCloseTextDocument((doc) => diagnostics.delete(doc.uri)),
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("stardewModdingSchema.validateContextTags")) {
+        vscode.workspace.textDocuments.forEach(update);
+      }
+    }),
+    updateDocumentsOnRegistryChange(registry, update)
+  );
+
+  return vscode.Disposable.from(...disposables);
+}
@@ -0,0 +1,232 @@
+// src/definitionConflicts.ts
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { parse, parseTree, Node as JsonNode, ParseError } from "jsonc-parser";
+import { collisionKey, ItemLookup } from "./stardewIds";
+import { ItemRegistry, updateDocumentsOnRegistryChange } from "./itemRegistry";
+import { TARGET_TO_CATEGORY } from "./installedScanner";
+import { getOutputChannel } from "./outputChannel";
+
+const TARGET_TO_PREFIX = new Map<string, string>(
+  Object.entries(TARGET_TO_CATEGORY).map(([target, info]) => [target.toLowerCase(), info.prefix])
+);
+
+/* ------------------------------------------------------------------------- */
+/*  Owning mod of a document                                                 */
+/* ------------------------------------------------------------------------- */
+
+// manifest.json path -> UniqueID (null when unreadable); cleared when a manifest is saved
+const manifestIds = new Map<string, string | null>();
+
+/**
+ * UniqueID from the nearest manifest.json above the document, if any.
+ */
+function findDocumentModId(document: vscode.TextDocument): string | undefined {
+  if (document.uri.scheme !== "file") return;
+
+  let dir = path.dirname(document.uri.fsPath);
+  for (let depth = 0; depth < 8; depth++) {
+    const manifestPath = path.join(dir, "manifest.json");
+    if (!manifestIds.has(manifestPath)) {
+      manifestIds.set(manifestPath, readManifestUniqueId(manifestPath));
+    }
+    const id = manifestIds.get(manifestPath);
+    if (id) return id;
+
+    const parent = path.dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
+  return;
+}
+
+function readManifestUniqueId(manifestPath: string): string | null {
+  try {
+    if (!fs.existsSync(manifestPath)) return null;
+    const errors: ParseError[] = [];
+    const json = parse(fs.readFileSync(manifestPath, "utf8"), errors, { allowTrailingComma: true });
+    const id = json?.UniqueID ?? json?.UniqueId;
+    return typeof id === "string" && id.trim() ? id.trim() : null;
+  } catch {
+    return null;
+  }
+}
+
+/* ------------------------------------------------------------------------- */
+/*  AST helpers                                                              */
+/* ------------------------------------------------------------------------- */
+
+function getPropertyKeyName(propNode: JsonNode | undefined): string | undefined {
+  if (!propNode || propNode.type !== "property" || !propNode.children?.length) return;
+  const keyNode = propNode.children[0];
+  if (keyNode.type !== "string") return;
+  return String(keyNode.value);
+}
+
+function getPropertyValue(objectNode: JsonNode, name: string): JsonNode | undefined {
+  for (const prop of objectNode.children ?? []) {
+    if (getPropertyKeyName(prop) === name) return prop.children?.[1];
+  }
+  return;
+}
+
+/* ------------------------------------------------------------------------- */
+/*  Diagnostics                                                              */
+/* ------------------------------------------------------------------------- */
+
+/**
+ * Warn on EditData entry keys that installed mods other than this one also add.
+ */
+function collectConflictDiagnostics(
+  document: vscode.TextDocument,
+  lookup: ItemLookup
+): vscode.Diagnostic[] {
+  const root = parseTree(document.getText());
+  if (!root) return [];
+
+  const modId = findDocumentModId(document);
+  const diagnostics: vscode.Diagnostic[] = [];
+
+  const checkPatch = (patch: JsonNode) => {
+    const action = getPropertyValue(patch, "Action");
+    const target = getPropertyValue(patch, "Target");
+    const entries = getPropertyValue(patch, "Entries");
+    if (action?.value !== "EditData" || target?.type !== "string" || entries?.type !== "object") return;
+
+    const targets = String(target.value)
+      .split(",")
+      .map((t) => t.trim())
+      .filter((t) => t && !t.includes("{{"));
+
+    for (const prop of entries.children ?? []) {
+      const keyNode = prop.children?.[0];
+      const valueNode = prop.children?.[1];
+      if (!keyNode || valueNode?.type === "null") continue;
+
+      let key = String(keyNode.value ?? "").trim();
+      if (modId) key = key.replace(/\{\{\s*modid\s*\}\}/gi, modId);
+      if (!key || key.includes("{{")) continue;
+
+      for (const t of targets) {
+        const collision = lookup.collisions.get(collisionKey(t, key));
+        let others = collision ? collision.mods.filter((m) => m !== modId) : [];
+
+        // Not a known collision, but an installed mod other than this one already adds the item
+        const prefix = TARGET_TO_PREFIX.get(t.replace(/\\/g, "/").toLowerCase());
+        if (others.length === 0 && prefix && modId) {
+          const item = lookup.byQualifiedId.get(`(${prefix})${key}`);
+          const fromMod = item?.source === "installed" || item?.source === "workspace";
+          if (item && fromMod && !item.referenceOnly && item.modId !== modId) {
+            others = [item.modId];
+          }
+        }
+        if (others.length === 0) continue;
+
+        const diagnostic = new vscode.Diagnostic(
+          new vscode.Range(
+            document.positionAt(keyNode.offset),
+            document.positionAt(keyNode.offset + keyNode.length)
+          ),
+          `'${key}' in ${t} is also added by ${others.join(", ")}; whichever patch applies last replaces the others.`,
+          vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = "Stardew Modding Schema";
+        diagnostics.push(diagnostic);
+      }
+    }
+  };
+
+  const walk = (node: JsonNode) => {
+    if (node.type === "object") checkPatch(node);
+    for (const child of node.children ?? []) walk(child);
+  };
+
+  walk(root);
+  return diagnostics;
+}
+
+/* ------------------------------------------------------------------------- */
+/*  Report                                                                   */
+/* ------------------------------------------------------------------------- */
+
+function showConflictReport(lookup: ItemLookup): void {
+  const collisions = Array.from(lookup.collisions.values()).sort(
+    (a, b) => a.target.localeCompare(b.target) || a.key.localeCompare(b.key)
+  );
+
+  if (collisions.length === 0) {
+    vscode.window.showInformationMessage(
+      "Stardew Modding Schema: No conflicting definitions found in installed mods."
+    );
+    return;
+  }
+
+  const out = getOutputChannel();
+  out.appendLine(`Conflicting definitions in installed mods: ${collisions.length}`);
+
+  let currentTarget = "";
+  for (const c of collisions) {
+    if (c.target !== currentTarget) {
+      currentTarget = c.target;
+      out.appendLine(`  ${c.target}`);
+    }
+    out.appendLine(`    ${c.key}: ${c.mods.join(", ")}`);
+  }
+  out.appendLine("");
+  out.show(true);
+}
+
+/* ------------------------------------------------------------------------- */
+/*  Registration                                                             */
+/* ------------------------------------------------------------------------- */
+
+export function registerDefinitionConflictSupport(
+  context: vscode.ExtensionContext,
+  registry: ItemRegistry
+): vscode.Disposable {
+  const disposables: vscode.Disposable[] = [];
+
+  disposables.push(
+    vscode.commands.registerCommand("stardewModdingSchema.showDefinitionConflicts", () =>
+      showConflictReport(registry.lookup)
+    )
+  );
+
+  const diagnostics = vscode.languages.createDiagnosticCollection("stardew-definition-conflicts");
+  disposables.push(diagnostics);
+
+  const update = (doc: vscode.TextDocument) => {
+    const config = vscode.workspace.getConfiguration("stardewModdingSchema");
+    if (
+      (doc.languageId !== "json" && doc.languageId !== "jsonc") ||
+      path.basename(doc.fileName).toLowerCase() === "manifest.json" ||
+      config.get<boolean>("validateDefinitionConflicts") === false
+    ) {
+      diagnostics.delete(doc.uri);
+      return;
+    }
+    diagnostics.set(doc.uri, collectConflictDiagnostics(doc, registry.lookup));
+  };
+
+  vscode.workspace.textDocuments.forEach(update);
+  disposables.push(
+    vscode.workspace.onDidOpenTextDocument(update),
+    vscode.workspace.onDidChangeTextDocument((e) => update(e.document)),
+    vscode.workspace.onDidCloseTextDocument((doc) => diagnostics.delete(doc.uri)),
+    vscode.workspace.onDidSaveTextDocument((doc) => {
+      if (path.basename(doc.fileName).toLowerCase() === "manifest.json") {
+        manifestIds.clear();
+        vscode.workspace.textDocuments.forEach(update);
+      }
+    }),
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("stardewModdingSchema.validateDefinitionConflicts")) {
+        vscode.workspace.textDocuments.forEach(update);
+      }
+    }),
+    updateDocumentsOnRegistryChange(registry, update)
+  );
+
+  return vscode.Disposable.from(...disposables);
+}
@@ -0,0 +1,389 @@
+// src/dependencyDiagnostics.ts
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { modify, parse, parseTree, Node as JsonNode, ParseError } from "jsonc-parser";
+import { ItemEntry, ItemLookup } from "./stardewIds";
+import { ItemRegistry, updateDocumentsOnRegistryChange } from "./itemRegistry";
+
+const DIAGNOSTIC_CODE = "missingDependency";
+
+// Wait for typing in a manifest.json to pause before re-checking its mod's documents
+const MANIFEST_DEBOUNCE_MS = 300;
+
+// Fields whose unqualified values are item IDs (qualified IDs are recognized anywhere)
+const ITEM_REFERENCE_FIELDS = new Set<string>([
+  "ItemId",
+  "RandomItemId",
+  "TradeItemId",
+  "RequireToolId",
+  "ConventionalUpgradeFrom",
+]);
+
+/* ------------------------------------------------------------------------- */
+/*  Manifest of a document                                                   */
+/* ------------------------------------------------------------------------- */
+
+interface ManifestInfo {
+  uri: vscode.Uri;
+  uniqueId: string;
+  dependencies: Set<string>; // lowercased UniqueIDs from Dependencies, plus ContentPackFor
+}
+
+// manifest.json path -> info (null when missing or unreadable); an entry is dropped when that manifest changes
+const manifests = new Map<string, ManifestInfo | null>();
+
+// Folders searched upwards from a document for its manifest.json
+const MAX_MANIFEST_DEPTH = 8;
+
+/**
+ * The nearest manifest.json above the document, if any.
+ */
+function findDocumentManifest(document: vscode.TextDocument): ManifestInfo | undefined {
+  if (document.uri.scheme !== "file") return;
+
+  let dir = path.dirname(document.uri.fsPath);
+  for (let depth = 0; depth < MAX_MANIFEST_DEPTH; depth++) {
+    const manifestPath = path.join(dir, "manifest.json");
+    if (!manifests.has(manifestPath)) {
+      manifests.set(manifestPath, readManifest(manifestPath));
+    }
+    const manifest = manifests.get(manifestPath);
+    if (manifest) return manifest;
+
+    const parent = path.dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
+  return;
+}
+
+/**
+ * True when the search in findDocumentManifest reaches manifestPath, i.e. no closer
+ * valid manifest.json (as last cached) sits between it and the document.
+ */
+function usesManifest(document: vscode.TextDocument, manifestPath: string): boolean {
+  if (document.uri.scheme !== "file") return false;
+
+  let dir = path.dirname(document.uri.fsPath);
+  for (let depth = 0; depth < MAX_MANIFEST_DEPTH; depth++) {
+    const candidate = path.join(dir, "manifest.json");
+    if (candidate === manifestPath) return true;
+    if (manifests.get(candidate)) return false;
+
+    const parent = path.dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
+  return false;
+}
+
+/**
+ * Read a manifest, preferring the open (possibly unsaved) editor text so a quick fix
+ * takes effect before the manifest is saved.
+ */
+function readManifest(manifestPath: string): ManifestInfo | null {
+  try {
+    const open = vscode.workspace.textDocuments.find(
+      (doc) => doc.uri.scheme === "file" && doc.uri.fsPath === manifestPath
+    );
+    if (!open && !fs.existsSync(manifestPath)) return null;
+
+    const text = open ? open.getText() : fs.readFileSync(manifestPath, "utf8");
+    const errors: ParseError[] = [];
+    const json = parse(text, errors, { allowTrailingComma: true });
+    const id = json?.UniqueID ?? json?.UniqueId;
+    if (typeof id !== "string" || !id.trim()) return null;
+
+    const dependencies = new Set<string>();
+    const packFor = json.ContentPackFor?.UniqueID ?? json.ContentPackFor?.UniqueId;
+    if (typeof packFor === "string" && packFor.trim()) dependencies.add(packFor.trim().toLowerCase());
+    if (Array.isArray(json.Dependencies)) {
+      for (const dep of json.Dependencies) {
+        const depId = dep?.UniqueID ?? dep?.UniqueId;
+        if (typeof depId === "string" && depId.trim()) dependencies.add(depId.trim().toLowerCase());
+      }
+    }
+
+    return { uri: vscode.Uri.file(manifestPath), uniqueId: id.trim(), dependencies };
+  } catch {
+    return null;
+  }
+}
+
+/* ------------------------------------------------------------------------- */
+/*  AST helpers                                                              */
+/* ------------------------------------------------------------------------- */
+
+function getPropertyKeyName(propNode: JsonNode | undefined): string | undefined {
+  if (!propNode || propNode.type !== "property" || !propNode.children?.length) return;
+  const keyNode = propNode.children[0];
+  if (keyNode.type !== "string") return;
+  return String(keyNode.value);
+}
+
+/**
+ * Field a string VALUE node belongs to ("ItemId": "..." or "RandomItemId": ["..."]).
+ */
+function getOwningField(node: JsonNode): string | undefined {
+  let current = node;
+  if (current.parent?.type === "array") current = current.parent;
+  const prop = current.parent;
+  if (prop?.type !== "property" || prop.children?.[1] !== current) return;
+  return getPropertyKeyName(prop);
+}
+
+/* ------------------------------------------------------------------------- */
+/*  Diagnostics                                                              */
+/* ------------------------------------------------------------------------- */
+
+interface MissingDependency {
+  range: vscode.Range;
+  modId: string; // UniqueID to add to Dependencies
+  manifest: vscode.Uri;
+}
+
+// document URI -> missing dependencies found by the last update (for the quick fix)
+const missingByDocument = new Map<string, MissingDependency[]>();
+
+/**
+ * The installed item a string value refers to, when it is one.
+ */
+function resolveReferencedItem(
+  value: string,
+  field: string | undefined,
+  lookup: ItemLookup
+): ItemEntry | undefined {
+  if (/^\([A-Za-z]+\)\S+$/.test(value)) return lookup.byQualifiedId.get(value);
+  if (!field || !ITEM_REFERENCE_FIELDS.has(field)) return;
+  return lookup.byQualifiedId.get(`(O)${value}`) ?? lookup.byId.get(value)?.[0];
+}
+
+/**
+ * Warn on references to items that an installed mod defines when this document's
+ * manifest doesn't declare that mod as a dependency.
+ */
+function collectDependencyDiagnostics(
+  document: vscode.TextDocument,
+  lookup: ItemLookup
+): { diagnostics: vscode.Diagnostic[]; missing: MissingDependency[] } {
+  const diagnostics: vscode.Diagnostic[] = [];
+  const missing: MissingDependency[] = [];
+
+  const manifest = findDocumentManifest(document);
+  const root = manifest ? parseTree(document.getText()) : undefined;
+  if (!manifest || !root) return { diagnostics, missing };
+
+  const ownId = manifest.uniqueId.toLowerCase();
+  const isDeclared = (modId: string) =>
+    modId.toLowerCase() === ownId || manifest.dependencies.has(modId.toLowerCase());
+
+  const walk = (node: JsonNode) => {
+    for (const child of node.children ?? []) walk(child);
+    if (node.type !== "string") return;
+
+    // Property keys aren't references here (EditData keys are checked for conflicts)
+    if (node.parent?.type === "property" && node.parent.children?.[0] === node) return;
+
+    const value = String(node.value ?? "")
+      .trim()
+      .replace(/\{\{\s*modid\s*\}\}/gi, manifest.uniqueId);
+    if (!value || value.includes("{{")) return;
+
+    const item = resolveReferencedItem(value, getOwningField(node), lookup);
+    if (!item || (item.source !== "installed" && item.source !== "workspace") || item.referenceOnly) {
+      return;
+    }
+
+    // Any of the mods adding it will do
+    const definers = item.addedBy?.length ? item.addedBy : [item.modId];
+    if (definers.some(isDeclared)) return;
+
+    const range = new vscode.Range(
+      document.positionAt(node.offset),
+      document.positionAt(node.offset + node.length)
+    );
+    const diagnostic = new vscode.Diagnostic(
+      range,
+      `'${value}' is defined by ${item.modId}, which isn't listed in the Dependencies of manifest.json.`,
+      vscode.DiagnosticSeverity.Warning
+    );
+    diagnostic.source = "Stardew Modding Schema";
+    diagnostic.code = DIAGNOSTIC_CODE;
+    diagnostics.push(diagnostic);
+    missing.push({ range, modId: item.modId, manifest: manifest.uri });
+  };
+
+  walk(root);
+  return { diagnostics, missing };
+}
+
+/* ------------------------------------------------------------------------- */
+/*  Quick fix                                                                */
+/* ------------------------------------------------------------------------- */
+
+/**
+ * Append { "UniqueID": modId, "IsRequired": true } to the manifest's Dependencies,
+ * creating the array when there is none.
+ */
+async function createAddDependencyEdit(
+  manifestUri: vscode.Uri,
+  modId: string
+): Promise<vscode.WorkspaceEdit | undefined> {
+  let manifestDoc: vscode.TextDocument;
+  try {
+    manifestDoc = await vscode.workspace.openTextDocument(manifestUri);
+  } catch {
+    return;
+  }
+
+  const text = manifestDoc.getText();
+  const indent = /\n([ \t]+)"/.exec(text)?.[1] ?? "  ";
+  const edits = modify(text, ["Dependencies", -1], { UniqueID: modId, IsRequired: true }, {
+    formattingOptions: {
+      insertSpaces: !indent.startsWith("\t"),
+      tabSize: indent.startsWith("\t") ? 1 : indent.length,
+      eol: text.includes("\r\n") ? "\r\n" : "\n",
+    },
+  });
+
+  const workspaceEdit = new vscode.WorkspaceEdit();
+  for (const edit of edits) {
+    workspaceEdit.replace(
+      manifestUri,
+      new vscode.Range(
+        manifestDoc.positionAt(edit.offset),
+        manifestDoc.positionAt(edit.offset + edit.length)
+      ),
+      edit.content
+    );
+  }
+  return workspaceEdit;
+}
+
+const addDependencyProvider: vscode.CodeActionProvider = {
+  async provideCodeActions(document, range, context) {
+    const missing = missingByDocument.get(document.uri.toString()) ?? [];
+    const actions: vscode.CodeAction[] = [];
+    const added = new Set<string>();
+
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.code !== DIAGNOSTIC_CODE) continue;
+
+      const match = missing.find((m) => m.range.isEqual(diagnostic.range));
+      if (!match || added.has(match.modId)) continue;
+      added.add(match.modId);
+
+      const edit = await createAddDependencyEdit(match.manifest, match.modId);
+      if (!edit) continue;
+
+      const action = new vscode.CodeAction(
+        `Add ${match.modId} to manifest.json Dependencies`,
+        vscode.CodeActionKind.QuickFix
+      );
+      action.edit = edit;
+      action.diagnostics = [diagnostic];
+      action.isPreferred = true;
+      actions.push(action);
+    }
+
+    return actions;
+  },
+};
+
+/* ------------------------------------------------------------------------- */
+/*  Registration                                                             */
+/* ------------------------------------------------------------------------- */
+
+export function registerDependencyDiagnosticSupport(
+  context: vscode.ExtensionContext,
+  registry: ItemRegistry
+): vscode.Disposable {
+  const disposables: vscode.Disposable[] = [];
+
+  const diagnostics = vscode.languages.createDiagnosticCollection("stardew-missing-dependencies");
+  disposables.push(diagnostics);
+
+  const clear = (uri: vscode.Uri) => {
+    diagnostics.delete(uri);
+    missingByDocument.delete(uri.toString());
+  };
+
+  const isManifest = (doc: vscode.TextDocument) =>
+    path.basename(doc.fileName).toLowerCase() === "manifest.json";
+
+  const update = (doc: vscode.TextDocument) => {
+    const config = vscode.workspace.getConfiguration("stardewModdingSchema");
+    if (
+      (doc.languageId !== "json" && doc.languageId !== "jsonc") ||
+      isManifest(doc) ||
+      config.get<boolean>("validateDependencies") === false
+    ) {
+      clear(doc.uri);
+      return;
+    }
+    const result = collectDependencyDiagnostics(doc, registry.lookup);
+    diagnostics.set(doc.uri, result.diagnostics);
+    missingByDocument.set(doc.uri.toString(), result.missing);
+  };
+
+  // Re-read an edited manifest and re-check only the documents that use it
+  const manifestTimers = new Map<string, NodeJS.Timeout>();
+  const scheduleManifestRecheck = (manifestDoc: vscode.TextDocument) => {
+    if (manifestDoc.uri.scheme !== "file") return;
+    const manifestPath = manifestDoc.uri.fsPath;
+
+    const pending = manifestTimers.get(manifestPath);
+    if (pending) clearTimeout(pending);
+    manifestTimers.set(
+      manifestPath,
+      setTimeout(() => {
+        manifestTimers.delete(manifestPath);
+        manifests.delete(manifestPath);
+        vscode.workspace.textDocuments.filter((doc) => usesManifest(doc, manifestPath)).forEach(update);
+      }, MANIFEST_DEBOUNCE_MS)
+    );
+  };
+  disposables.push({
+    dispose: () => {
+      manifestTimers.forEach((timer) => clearTimeout(timer));
+      manifestTimers.clear();
+    },
+  });
+
+  vscode.workspace.textDocuments.forEach(update);
+  disposables.push(
+    vscode.languages.registerCodeActionsProvider(
+      [
+        { language: "json", scheme: "file" },
+        { language: "jsonc", scheme: "file" },
+      ],
+      addDependencyProvider,
+      { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }
+    ),
+    vscode.workspace.onDidOpenTextDocument(update),
+    vscode.workspace.onDidChangeTextDocument((e) => {
+      if (isManifest(e.document)) {
+        scheduleManifestRecheck(e.document);
+      } else {
+        update(e.document);
+      }
+    }),
+    vscode.workspace.onDidCloseTextDocument((doc) => {
+      // Closing an unsaved manifest puts the text on disk back in effect
+      if (isManifest(doc)) scheduleManifestRecheck(doc);
+      clear(doc.uri);
+    }),
+    vscode.workspace.onDidSaveTextDocument((doc) => {
+      if (isManifest(doc)) scheduleManifestRecheck(doc);
+    }),
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("stardewModdingSchema.validateDependencies")) {
+        vscode.workspace.textDocuments.forEach(update);
+      }
+    }),
+    updateDocumentsOnRegistryChange(registry, update)
+  );
+
+  return vscode.Disposable.from(...disposables);
+}
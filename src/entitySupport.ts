@@ -0,0 +1,364 @@
+// src/entitySupport.ts
+import * as vscode from "vscode";
+import { parseTree, findNodeAtOffset, Node as JsonNode } from "jsonc-parser";
+import { ItemRegistry } from "./itemRegistry";
+import { ENTITY_KINDS, EntityKind, EntityLookup, findEntity } from "./stardewEntities";
+
+/**
+ * Fields whose whole value (or each string in an array value) names an entity.
+ */
+const ENTITY_FIELDS: Record<string, EntityKind> = {
+  NPC: "npc",
+  Npc: "npc",
+  NpcName: "npc",
+  NPCName: "npc",
+  Character: "npc",
+  Location: "location",
+  LocationName: "location",
+  TargetLocation: "location",
+  Building: "building",
+  BuildingType: "building",
+  BuildingToUpgrade: "building",
+  FarmAnimal: "farmAnimal",
+  AnimalType: "farmAnimal",
+};
+
+/**
+ * Game state query arguments that name an entity (argument 0 is the first word
+ * after the query name). `rest` means every argument from there on.
+ */
+const QUERY_ENTITY_ARGS: Record<string, { kind: EntityKind; arg: number; rest?: boolean }[]> = {
+  PLAYER_HAS_MET: [{ kind: "npc", arg: 1 }],
+  PLAYER_FRIENDSHIP_POINTS: [{ kind: "npc", arg: 1 }],
+  PLAYER_HEARTS: [{ kind: "npc", arg: 1 }],
+  PLAYER_NPC_RELATIONSHIP: [{ kind: "npc", arg: 1 }],
+  PLAYER_LOCATION_NAME: [{ kind: "location", arg: 1, rest: true }],
+  PLAYER_VISITED_LOCATION: [{ kind: "location", arg: 1, rest: true }],
+  LOCATION_NAME: [
+    { kind: "location", arg: 0 },
+    { kind: "location", arg: 1, rest: true },
+  ],
+  BUILDINGS_CONSTRUCTED: [
+    { kind: "location", arg: 0 },
+    { kind: "building", arg: 1 },
+  ],
+};
+
+// LOCATION_* queries take a location as their first argument too
+const LOCATION_QUERY_PREFIX = "LOCATION_";
+
+/**
+ * Placeholder arguments that stand for an entity but aren't one.
+ */
+const SPECIAL_ARGUMENTS = new Set<string>(["here", "target", "any", "all", "current"]);
+
+/**
+ * Asset names that end in an NPC name (Characters/schedules/Abigail, Portraits/Abigail, ...).
+ */
+const NPC_ASSET_RE = /^(Characters[\\/](?:Dialogue|schedules)[\\/]|Characters[\\/]|Portraits[\\/])([^\\/]+)$/i;
+const SCHEDULE_TARGET_RE = /^Characters[\\/]schedules[\\/]/i;
+
+interface EntityRef {
+  kind: EntityKind;
+  value: string;
+  start: number; // document offsets of the value
+  end: number;
+}
+
+interface Word {
+  text: string;
+  start: number; // offset within the string value
+  end: number;
+}
+
+/* ------------------------------------------------------------------------- */
+/*  AST helpers                                                              */
+/* ------------------------------------------------------------------------- */
+
+function getPropertyKeyName(propNode: JsonNode | undefined): string | undefined {
+  if (!propNode || propNode.type !== "property" || !propNode.children?.length) return;
+  const keyNode = propNode.children[0];
+  if (keyNode.type !== "string") return;
+  return String(keyNode.value);
+}
+
+/**
+ * For a string VALUE node, the name of the field it belongs to:
+ *   "Field": "value"   or   "Field": ["value", ...]
+ */
+function getFieldForStringNode(node: JsonNode): string | undefined {
+  const parent = node.parent;
+  if (!parent) return;
+
+  if (parent.type === "array") {
+    return getPropertyKeyName(parent.parent);
+  }
+
+  if (parent.type === "property" && parent.children?.[1] === node) {
+    return getPropertyKeyName(parent);
+  }
+
+  return;
+}
+
+/**
+ * The Target of the nearest enclosing patch object, if any.
+ */
+function getEnclosingPatchTarget(node: JsonNode): string | undefined {
+  for (let current = node.parent; current; current = current.parent) {
+    if (current.type !== "object") continue;
+    for (const prop of current.children ?? []) {
+      const value = prop.children?.[1];
+      if (getPropertyKeyName(prop) === "Target" && value?.type === "string") {
+        return String(value.value);
+      }
+    }
+  }
+  return;
+}
+
+/* ------------------------------------------------------------------------- */
+/*  Reference extraction                                                     */
+/* ------------------------------------------------------------------------- */
+
+/**
+ * Split on whitespace; a double-quoted run is one word (without its quotes).
+ */
+function splitWords(text: string, offset: number): Word[] {
+  const words: Word[] = [];
+  const re = /"([^"]*)"?|\S+/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text)) !== null) {
+    if (m[1] !== undefined) {
+      words.push({ text: m[1], start: offset + m.index + 1, end: offset + m.index + 1 + m[1].length });
+    } else {
+      words.push({ text: m[0], start: offset + m.index, end: offset + m.index + m[0].length });
+    }
+  }
+  return words;
+}
+
+/**
+ * Split a string into segments on a separator that isn't inside double quotes.
+ */
+function splitSegments(text: string, separator: string): { text: string; offset: number }[] {
+  const segments: { text: string; offset: number }[] = [];
+  let start = 0;
+  let inQuotes = false;
+  for (let i = 0; i <= text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') inQuotes = !inQuotes;
+    if (i === text.length || (ch === separator && !inQuotes)) {
+      segments.push({ text: text.slice(start, i), offset: start });
+      start = i + 1;
+    }
+  }
+  return segments;
+}
+
+/**
+ * Entity arguments in a game state query string ("PLAYER_HEARTS Current Abigail 4, ...").
+ */
+function queryEntityRefs(value: string): { kind: EntityKind; word: Word }[] {
+  const refs: { kind: EntityKind; word: Word }[] = [];
+
+  for (const segment of splitSegments(value, ",")) {
+    const words = splitWords(segment.text, segment.offset);
+    if (words.length === 0) continue;
+
+    const queryName = words[0].text.replace(/^!/, "").toUpperCase();
+    const specs = [...(QUERY_ENTITY_ARGS[queryName] ?? [])];
+    if (queryName.startsWith(LOCATION_QUERY_PREFIX) && !specs.some((s) => s.arg === 0)) {
+      specs.push({ kind: "location", arg: 0 });
+    }
+
+    words.slice(1).forEach((word, arg) => {
+      const spec = specs.find((s) => s.arg === arg || (s.rest && arg > s.arg));
+      if (spec) refs.push({ kind: spec.kind, word });
+    });
+  }
+
+  return refs;
+}
+
+/**
+ * Location names in a schedule string ("610 Saloon 12 18 2/900 Town 47 87 0") and the
+ * NPC in a leading "NOT friendship <NPC> <hearts>".
+ */
+function scheduleEntityRefs(value: string): { kind: EntityKind; word: Word }[] {
+  const refs: { kind: EntityKind; word: Word }[] = [];
+
+  for (const segment of splitSegments(value, "/")) {
+    const words = splitWords(segment.text, segment.offset);
+    if (words.length < 2) continue;
+
+    if (/^a?\d+$/.test(words[0].text)) {
+      refs.push({ kind: "location", word: words[1] });
+    } else if (words[0].text === "NOT" && words[1].text === "friendship") {
+      words.slice(2).forEach((word, i) => {
+        if (i % 2 === 0) refs.push({ kind: "npc", word });
+      });
+    }
+  }
+
+  return refs;
+}
+
+/**
+ * Every entity reference inside a string node, as document spans. `value` overrides the
+ * node's text (completion parses it with a placeholder at the cursor).
+ */
+function collectEntityRefs(node: JsonNode, value = String(node.value ?? "")): EntityRef[] {
+  const base = node.offset + 1;
+  const field = getFieldForStringNode(node);
+  const toRef = ({ kind, word }: { kind: EntityKind; word: Word }): EntityRef => ({
+    kind,
+    value: word.text,
+    start: base + word.start,
+    end: base + word.end,
+  });
+
+  if (field && ENTITY_FIELDS[field]) {
+    const leading = value.length - value.trimStart().length;
+    const trimmed = value.trim();
+    return [{ kind: ENTITY_FIELDS[field], value: trimmed, start: base + leading, end: base + leading + trimmed.length }];
+  }
+
+  if (field && /Condition$/.test(field)) {
+    return queryEntityRefs(value).map(toRef);
+  }
+
+  if (field === "Target") {
+    return splitSegments(value, ",").flatMap((segment) => {
+      const trimmed = segment.text.trim();
+      const m = NPC_ASSET_RE.exec(trimmed);
+      if (!m) return [];
+      const start = base + segment.offset + (segment.text.length - segment.text.trimStart().length) + m[1].length;
+      return [{ kind: "npc" as EntityKind, value: m[2], start, end: start + m[2].length }];
+    });
+  }
+
+  // Schedule entries: string values inside an EditData on Characters/schedules/<NPC>
+  if (node.parent?.type === "property" && SCHEDULE_TARGET_RE.test(getEnclosingPatchTarget(node) ?? "")) {
+    return scheduleEntityRefs(value).map(toRef);
+  }
+
+  return [];
+}
+
+/* ------------------------------------------------------------------------- */
+/*  Registration                                                             */
+/* ------------------------------------------------------------------------- */
+
+function describeSource(entity: { source: string; modId: string }): string {
+  if (entity.source === "installed") return `installed mod \`${entity.modId}\``;
+  if (entity.source === "workspace") return `workspace mod \`${entity.modId}\``;
+  return entity.source === "custom" ? "custom IDs" : "vanilla";
+}
+
+export function registerEntitySupport(
+  context: vscode.ExtensionContext,
+  registry: ItemRegistry
+): vscode.Disposable {
+  const disposables: vscode.Disposable[] = [];
+
+  const selector: vscode.DocumentSelector = [
+    { pattern: "**/*.json" },
+    { pattern: "**/*.jsonc" },
+  ];
+
+  const getStringNode = (
+    document: vscode.TextDocument,
+    offset: number
+  ): JsonNode | undefined => {
+    const root = parseTree(document.getText());
+    if (!root) return;
+    const node = findNodeAtOffset(root, offset);
+    return node?.type === "string" ? node : undefined;
+  };
+
+  // Completion
+  disposables.push(
+    vscode.languages.registerCompletionItemProvider(
+      selector,
+      {
+        provideCompletionItems(document, position) {
+          const offset = document.offsetAt(position);
+          const node = getStringNode(document, offset);
+          if (!node) return;
+
+          // An empty word at the cursor ("PLAYER_HEARTS Current |") is still a slot to fill:
+          // parse with a placeholder character there so it shows up as a reference
+          const inner = offset - (node.offset + 1);
+          const value = String(node.value ?? "");
+          const probe = `${value.slice(0, inner)}\u0001${value.slice(inner)}`;
+          const ref = collectEntityRefs(node, probe).find(
+            (r) => offset >= r.start && offset <= r.end
+          );
+          if (!ref) return;
+
+          const range = new vscode.Range(
+            document.positionAt(ref.start),
+            document.positionAt(Math.max(ref.start, ref.end - (ref.value.includes("\u0001") ? 1 : 0)))
+          );
+
+          const entities: EntityLookup = registry.lookup.entities;
+          const label = ENTITY_KINDS[ref.kind].label;
+          const items: vscode.CompletionItem[] = [];
+          for (const entity of entities.byKind[ref.kind].values()) {
+            const ci = new vscode.CompletionItem(entity.id, vscode.CompletionItemKind.Value);
+            ci.range = range;
+            ci.detail = `${label}${entity.name !== entity.id ? ` • ${entity.name}` : ""} (${entity.modId})`;
+            ci.filterText = `${entity.id} ${entity.name}`;
+            ci.sortText = `${entity.source === "vanilla" ? "0" : "1"}_${entity.id}`;
+            items.push(ci);
+          }
+          return items;
+        },
+      },
+      '"',
+      " ",
+      "/"
+    )
+  );
+
+  // Hover
+  disposables.push(
+    vscode.languages.registerHoverProvider(selector, {
+      provideHover(document, position) {
+        try {
+          const offset = document.offsetAt(position);
+          const node = getStringNode(document, offset);
+          if (!node) return;
+
+          const ref = collectEntityRefs(node).find((r) => offset >= r.start && offset <= r.end);
+          if (!ref || !ref.value || ref.value.includes("{{")) return;
+          if (SPECIAL_ARGUMENTS.has(ref.value.toLowerCase())) return;
+
+          const label = ENTITY_KINDS[ref.kind].label;
+          const entity = findEntity(registry.lookup.entities, ref.kind, ref.value);
+
+          const md = new vscode.MarkdownString();
+          md.appendMarkdown(`**${label}** \`${ref.value}\`\n\n`);
+          if (!entity) {
+            md.appendMarkdown(
+              `_Unknown ${label.toLowerCase()}: not found in vanilla data or installed mods._\n`
+            );
+          } else {
+            if (entity.name !== entity.id) md.appendMarkdown(`- Name: ${entity.name}\n`);
+            if (entity.id !== ref.value) md.appendMarkdown(`- ID: \`${entity.id}\` (different capitalization)\n`);
+            md.appendMarkdown(`- From: ${describeSource(entity)}\n`);
+          }
+
+          md.isTrusted = false;
+          const range = new vscode.Range(document.positionAt(ref.start), document.positionAt(ref.end));
+          return new vscode.Hover(md, range);
+        } catch {
+          return;
+        }
+      },
+    })
+  );
+
+  return vscode.Disposable.from(...disposables);
+}
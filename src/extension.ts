@@ -5,9 +5,15 @@ import * as fs from "fs";
 import { registerUbDiagnostics } from "./ubDiagnostics";
 import { registerUbThemesSupport } from "./ubThemes";
 import { registerStardewIntelliSense } from "./stardewIntelliSense";
-import { rebuildInstalledItemIndex } from "./installedIndex";
-
-// Support multiple watchers if we end up watching multiple roots later
+import { disposeInstalledScanner, rebuildInstalledItemIndex } from "./installedIndex";
+import { registerVanillaCatalogCommands } from "./vanillaCatalog";
+import { registerIndexHistoryCommands } from "./indexHistory";
+import { registerSmapiLogSupport } from "./smapiLog";
+import { disposeOutputChannel } from "./outputChannel";
+import { reloadItemRegistries } from "./itemRegistry";
+import { getModsRoots, isInModFolder } from "./modsRoots";
+
+// One watcher per mods root (workspace folders, additionalModsRoots, modsRoot)
 let modsWatchers: vscode.FileSystemWatcher[] = [];
 
 // Unique ID so we can find/remove our own json.schemas entry
@@ -211,39 +217,44 @@ function scheduleAutoRebuild(
   }, delayMs);
 }
 
-function setupModsWatcher(
+function setupModsWatchers(
   context: vscode.ExtensionContext,
   modsRootOverride?: string
 ): void {
-  const config = vscode.workspace.getConfiguration("stardewModdingSchema");
-  const modsRootRaw = modsRootOverride ?? (config.get<string>("modsRoot") ?? "");
-  const modsRoot = modsRootRaw.trim();
+  const modsRoots = getModsRoots(modsRootOverride);
 
   disposeModsWatchers();
 
-  if (!modsRoot) {
+  if (modsRoots.length === 0) {
     console.log(
-      "[Stardew Modding Schema] modsRoot not set; skipping mods watcher."
+      "[Stardew Modding Schema] No mods roots configured; skipping mods watcher."
     );
     return;
   }
 
-  // Keep the original broad watcher:
-  const pattern = new vscode.RelativePattern(modsRoot, "**/*.json");
-  const watcher = vscode.workspace.createFileSystemWatcher(pattern);
-
   const onChange = (uri: vscode.Uri) => {
     scheduleAutoRebuild(context, `mods watcher: ${uri.fsPath}`);
   };
 
-  watcher.onDidChange(onChange);
-  watcher.onDidCreate(onChange);
-  watcher.onDidDelete(onChange);
+  for (const modsRoot of modsRoots) {
+    // Only JSON inside a mod folder matters; a workspace's package.json or
+    // tsconfig.json doesn't. Deletes always count (the manifest may be gone too).
+    const onModFileChange = (uri: vscode.Uri) => {
+      if (isInModFolder(modsRoot, uri.fsPath)) onChange(uri);
+    };
 
-  context.subscriptions.push(watcher);
-  modsWatchers.push(watcher);
+    const pattern = new vscode.RelativePattern(modsRoot, "**/*.json");
+    const watcher = vscode.workspace.createFileSystemWatcher(pattern);
 
-  console.log(`[Stardew Modding Schema] Watching modsRoot: ${modsRoot} (**/*.json, debounced)`);
+    watcher.onDidChange(onModFileChange);
+    watcher.onDidCreate(onModFileChange);
+    watcher.onDidDelete(onChange);
+
+    context.subscriptions.push(watcher);
+    modsWatchers.push(watcher);
+
+    console.log(`[Stardew Modding Schema] Watching mods root: ${modsRoot} (**/*.json in mod folders, debounced)`);
+  }
 }
 
 export function activate(context: vscode.ExtensionContext): void {
@@ -253,6 +264,9 @@ export function activate(context: vscode.ExtensionContext): void {
   registerUbThemesSupport(context);
 
   registerStardewIntelliSense(context);
+  registerVanillaCatalogCommands(context);
+  registerIndexHistoryCommands(context);
+  registerSmapiLogSupport(context);
 
   context.subscriptions.push(
     vscode.commands.registerCommand(
@@ -266,7 +280,7 @@ export function activate(context: vscode.ExtensionContext): void {
   void (async () => {
     const effectiveModsRoot = await ensureModsRootConfigured();
 
-    setupModsWatcher(context, effectiveModsRoot);
+    setupModsWatchers(context, effectiveModsRoot);
     void updateJsonSchemaAssociations(context, effectiveModsRoot);
 
     // Debounced startup rebuild
@@ -276,10 +290,33 @@ export function activate(context: vscode.ExtensionContext): void {
   context.subscriptions.push(
     vscode.workspace.onDidChangeConfiguration((e) => {
       if (e.affectsConfiguration("stardewModdingSchema.modsRoot")) {
-        setupModsWatcher(context);
+        setupModsWatchers(context);
         void updateJsonSchemaAssociations(context);
         scheduleAutoRebuild(context, "modsRoot setting changed", 250);
+      } else if (
+        e.affectsConfiguration("stardewModdingSchema.additionalModsRoots") ||
+        e.affectsConfiguration("stardewModdingSchema.indexWorkspaceFolders")
+      ) {
+        setupModsWatchers(context);
+        scheduleAutoRebuild(context, "mods roots setting changed", 250);
       }
+
+      // Localized item names are resolved when the item sources load
+      if (
+        e.affectsConfiguration("stardewModdingSchema.displayLanguage") ||
+        e.affectsConfiguration("stardewModdingSchema.unpackedContentPath")
+      ) {
+        reloadItemRegistries("display language settings changed");
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeWorkspaceFolders(() => {
+      const config = vscode.workspace.getConfiguration("stardewModdingSchema");
+      if (config.get<boolean>("indexWorkspaceFolders") === false) return;
+      setupModsWatchers(context);
+      scheduleAutoRebuild(context, "workspace folders changed", 250);
     })
   );
 
@@ -306,6 +343,8 @@ export function activate(context: vscode.ExtensionContext): void {
 
 export function deactivate(): void {
   disposeModsWatchers();
+  disposeOutputChannel();
+  disposeInstalledScanner();
   if (autoRebuildTimer) {
     clearTimeout(autoRebuildTimer);
     autoRebuildTimer = undefined;
@@ -0,0 +1,258 @@
+// src/indexHistory.ts
+import * as vscode from "vscode";
+import {
+  INSTALLED_INDEX_HISTORY_FILE,
+  INSTALLED_INDEX_HISTORY_FORMAT_VERSION,
+  readCacheFile,
+  writeCacheFile,
+} from "./cacheStorage";
+import { getOutputChannel } from "./outputChannel";
+
+// Rebuilds kept in installed-index-history.json (oldest dropped first)
+const MAX_HISTORY_ENTRIES = 20;
+
+interface DiffItem {
+  qualifiedId: string;
+  name: string;
+}
+
+interface ModDiff {
+  modId: string;
+  modName: string;
+  fromVersion?: string;
+  toVersion?: string;
+  added: DiffItem[];
+  removed: DiffItem[];
+  renamed: { qualifiedId: string; from: string; to: string }[];
+}
+
+interface ModRef {
+  modId: string;
+  name: string;
+  version?: string;
+}
+
+/**
+ * What one installed index rebuild changed, grouped by mod.
+ */
+export interface IndexDiff {
+  builtAt: string;
+  modsAdded: ModRef[];
+  modsRemoved: ModRef[];
+  mods: ModDiff[]; // mods whose items or version changed
+}
+
+/* ------------------------------------------------------------------------- */
+/*  Diff                                                                     */
+/* ------------------------------------------------------------------------- */
+
+function indexItems(index: any): Map<string, { name: string; modId: string }> {
+  const map = new Map<string, { name: string; modId: string }>();
+  if (!index || typeof index !== "object") return map;
+
+  for (const key of Object.keys(index.categoryTypes ?? {})) {
+    const arr = index[key];
+    if (!Array.isArray(arr)) continue;
+    for (const item of arr) {
+      if (!item || typeof item.qualifiedId !== "string") continue;
+      map.set(item.qualifiedId, {
+        name: String(item.name ?? item.id ?? item.qualifiedId),
+        modId: String(item.modId ?? "Installed"),
+      });
+    }
+  }
+  return map;
+}
+
+function indexMods(index: any): Map<string, ModRef> {
+  const map = new Map<string, ModRef>();
+  const mods = index?.mods;
+  if (!mods || typeof mods !== "object") return map;
+
+  for (const [modId, info] of Object.entries<any>(mods)) {
+    const ref: ModRef = { modId, name: String(info?.name ?? modId) };
+    if (typeof info?.version === "string") ref.version = info.version;
+    map.set(modId, ref);
+  }
+  return map;
+}
+
+/**
+ * Compare two installed indexes: items added, removed and renamed per mod, and
+ * mods added or removed. An item that moved to another mod counts as removed from
+ * one and added to the other.
+ */
+export function diffInstalledIndexes(previous: any, next: any): IndexDiff {
+  const beforeItems = indexItems(previous);
+  const afterItems = indexItems(next);
+  const beforeMods = indexMods(previous);
+  const afterMods = indexMods(next);
+
+  const byMod = new Map<string, ModDiff>();
+  const modDiff = (modId: string): ModDiff => {
+    let diff = byMod.get(modId);
+    if (!diff) {
+      const ref = afterMods.get(modId) ?? beforeMods.get(modId);
+      diff = { modId, modName: ref?.name ?? modId, added: [], removed: [], renamed: [] };
+      byMod.set(modId, diff);
+    }
+    return diff;
+  };
+
+  for (const [qualifiedId, item] of afterItems) {
+    const old = beforeItems.get(qualifiedId);
+    if (!old || old.modId !== item.modId) {
+      modDiff(item.modId).added.push({ qualifiedId, name: item.name });
+    } else if (old.name !== item.name) {
+      modDiff(item.modId).renamed.push({ qualifiedId, from: old.name, to: item.name });
+    }
+  }
+  for (const [qualifiedId, item] of beforeItems) {
+    const now = afterItems.get(qualifiedId);
+    if (!now || now.modId !== item.modId) {
+      modDiff(item.modId).removed.push({ qualifiedId, name: item.name });
+    }
+  }
+
+  // Version bumps are worth listing even when no item changed
+  for (const [modId, ref] of afterMods) {
+    const old = beforeMods.get(modId);
+    if (old && old.version !== ref.version) modDiff(modId);
+  }
+  for (const diff of byMod.values()) {
+    diff.fromVersion = beforeMods.get(diff.modId)?.version;
+    diff.toVersion = afterMods.get(diff.modId)?.version;
+    if (diff.fromVersion === undefined) delete diff.fromVersion;
+    if (diff.toVersion === undefined) delete diff.toVersion;
+  }
+
+  const byId = (a: DiffItem, b: DiffItem) => a.qualifiedId.localeCompare(b.qualifiedId);
+  for (const diff of byMod.values()) {
+    diff.added.sort(byId);
+    diff.removed.sort(byId);
+    diff.renamed.sort((a, b) => a.qualifiedId.localeCompare(b.qualifiedId));
+  }
+
+  return {
+    builtAt: new Date().toISOString(),
+    modsAdded: Array.from(afterMods.values()).filter((m) => !beforeMods.has(m.modId)),
+    modsRemoved: Array.from(beforeMods.values()).filter((m) => !afterMods.has(m.modId)),
+    mods: Array.from(byMod.values()).sort((a, b) => a.modName.localeCompare(b.modName)),
+  };
+}
+
+export function isEmptyDiff(diff: IndexDiff): boolean {
+  return diff.modsAdded.length === 0 && diff.modsRemoved.length === 0 && diff.mods.length === 0;
+}
+
+export function summarizeDiff(diff: IndexDiff): string {
+  let added = 0;
+  let removed = 0;
+  let renamed = 0;
+  for (const mod of diff.mods) {
+    added += mod.added.length;
+    removed += mod.removed.length;
+    renamed += mod.renamed.length;
+  }
+  return `+${added} added, -${removed} removed, ~${renamed} renamed items; +${diff.modsAdded.length} / -${diff.modsRemoved.length} mods`;
+}
+
+/* ------------------------------------------------------------------------- */
+/*  History                                                                  */
+/* ------------------------------------------------------------------------- */
+
+function readHistory(context: vscode.ExtensionContext): IndexDiff[] {
+  const cache = readCacheFile(context, INSTALLED_INDEX_HISTORY_FILE, {
+    formatVersion: INSTALLED_INDEX_HISTORY_FORMAT_VERSION,
+  });
+  return Array.isArray(cache.data?.entries) ? cache.data.entries : [];
+}
+
+/**
+ * Append a rebuild's diff to the history, keeping the last MAX_HISTORY_ENTRIES.
+ */
+export function recordIndexDiff(context: vscode.ExtensionContext, diff: IndexDiff): void {
+  const entries = [...readHistory(context), diff].slice(-MAX_HISTORY_ENTRIES);
+  writeCacheFile(context, INSTALLED_INDEX_HISTORY_FILE, { entries }, {
+    formatVersion: INSTALLED_INDEX_HISTORY_FORMAT_VERSION,
+  });
+}
+
+/* ------------------------------------------------------------------------- */
+/*  Report                                                                   */
+/* ------------------------------------------------------------------------- */
+
+function formatVersionChange(mod: ModDiff): string {
+  if (mod.fromVersion === mod.toVersion) return mod.toVersion ? ` ${mod.toVersion}` : "";
+  return ` ${mod.fromVersion ?? "?"} → ${mod.toVersion ?? "?"}`;
+}
+
+/**
+ * Write a diff to the output channel.
+ */
+export function reportIndexDiff(diff: IndexDiff): void {
+  const out = getOutputChannel();
+  out.appendLine(`Installed item index rebuilt at ${new Date(diff.builtAt).toLocaleString()}`);
+  out.appendLine(`  ${summarizeDiff(diff)}`);
+
+  for (const mod of diff.modsAdded) {
+    out.appendLine(`  Mod added: ${mod.name} (${mod.modId})${mod.version ? ` ${mod.version}` : ""}`);
+  }
+  for (const mod of diff.modsRemoved) {
+    out.appendLine(`  Mod removed: ${mod.name} (${mod.modId})${mod.version ? ` ${mod.version}` : ""}`);
+  }
+
+  for (const mod of diff.mods) {
+    out.appendLine(`  ${mod.modName} (${mod.modId})${formatVersionChange(mod)}`);
+    for (const item of mod.added) out.appendLine(`    + ${item.qualifiedId} ${item.name}`);
+    for (const item of mod.removed) out.appendLine(`    - ${item.qualifiedId} ${item.name}`);
+    for (const r of mod.renamed) out.appendLine(`    ~ ${r.qualifiedId} ${r.from} → ${r.to}`);
+  }
+  out.appendLine("");
+}
+
+/**
+ * Pick an earlier rebuild (or all of them) and show its changes in the output channel.
+ * Each pick lists the mods it touched, so typing a mod name finds its rebuilds.
+ */
+async function showIndexHistory(context: vscode.ExtensionContext): Promise<void> {
+  const entries = readHistory(context).slice().reverse();
+  if (entries.length === 0) {
+    vscode.window.showInformationMessage(
+      "Stardew Modding Schema: No installed index changes recorded yet."
+    );
+    return;
+  }
+
+  type Pick = vscode.QuickPickItem & { entries: IndexDiff[] };
+  const picks: Pick[] = [
+    { label: "All recorded rebuilds", description: `${entries.length}`, entries },
+    ...entries.map((entry) => ({
+      label: new Date(entry.builtAt).toLocaleString(),
+      description: summarizeDiff(entry),
+      detail: entry.mods
+        .map((m) => m.modName)
+        .concat(entry.modsAdded.map((m) => `${m.name} (added)`), entry.modsRemoved.map((m) => `${m.name} (removed)`))
+        .join(", "),
+      entries: [entry],
+    })),
+  ];
+
+  const picked = await vscode.window.showQuickPick(picks, {
+    title: "Installed item index changes",
+    placeHolder: "Select a rebuild to show its changes",
+    matchOnDetail: true,
+  });
+  if (!picked) return;
+
+  for (const entry of picked.entries) reportIndexDiff(entry);
+  getOutputChannel().show(true);
+}
+
+export function registerIndexHistoryCommands(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand("stardewModdingSchema.showInstalledIndexHistory", () =>
+      showIndexHistory(context)
+    )
+  );
+}
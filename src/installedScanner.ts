@@ -0,0 +1,2684 @@
+// src/installedScanner.ts
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import { parse, ParseError } from "jsonc-parser";
+import type { ItemCondition } from "./stardewIds";
+import { ENTITY_KINDS, EntityKind } from "./stardewEntities";
+import { PACK_SCANNERS, PACK_SPRITE_FILES, PackScanContext } from "./packScanners";
+
+/**
+ * Installed mod scanner: everything that reads mod folders.
+ *
+ * Runs inside installedScannerWorker.ts (a worker thread), so it must not import
+ * "vscode" or anything that does. installedIndex.ts owns settings, storage and UI.
+ */
+
+/**
+ * Optional Data fields captured for hovers/completions/filtering.
+ */
+export interface InstalledItemMetadata {
+  internalName?: string; // the entry's internal Name (what item_* context tags use)
+  texture?: string; // Texture asset name from the Data entry
+  spriteIndex?: number;
+  price?: number;
+  itemCategory?: number; // numeric Category
+  edibility?: number;
+  type?: string;
+  contextTags?: string[];
+  description?: string;
+  nameKey?: string; // raw display name when it's an {{i18n:...}} token (for localization)
+  conditions?: ItemCondition[]; // When conditions of the patch that added the item
+  editedBy?: string[]; // other mods whose patches edit this item
+  removedBy?: string[]; // mods that delete this entry (null in Entries)
+  addedBy?: string[]; // every mod whose Entries add this ID, when more than one does
+  referenceOnly?: boolean; // only referenced (shops, recipes, ...); no mod's Entries add it
+}
+
+export interface InstalledItemInfo extends InstalledItemMetadata {
+  modId: string; // manifest.UniqueID
+  modName: string; // manifest.Name
+  name: string; // item display name
+  textureFile?: string; // absolute PNG path, when this mod Loads the texture asset
+}
+
+/**
+ * An NPC, location, building or farm animal type a mod adds.
+ */
+export interface InstalledEntityInfo {
+  kind: EntityKind;
+  id: string;
+  name: string;
+  modId: string;
+  modName: string;
+}
+
+
+/**
+ * One mod folder's scan result in installed-mod-cache.json, reused while the
+ * folder's fingerprint is unchanged.
+ */
+export interface ModScanCacheEntry {
+  fingerprint: string;
+  items: Record<string, InstalledItemInfo>; // qualifiedId -> info
+  edited?: string[]; // qualified IDs this mod edits but doesn't add
+  removed?: string[]; // qualified IDs this mod deletes
+  entryKeys?: string[]; // "<Target>::<key>" of every entry its patches add or replace
+  entities?: InstalledEntityInfo[]; // NPCs, locations, buildings, farm animals it adds
+}
+
+/**
+ * What one mod's patches do beyond adding items: edits to items it doesn't add itself
+ * (vanilla or other mods' items), and every Entries key it writes (for conflicts).
+ */
+interface ModPatchLog {
+  edited: Set<string>;
+  removed: Set<string>;
+  entryKeys: Set<string>; // "<Target>::<key>"
+}
+
+/**
+ * Two or more mods writing the same entry of the same asset.
+ */
+export interface DefinitionCollision {
+  target: string; // asset, e.g. "Data/Objects"
+  key: string; // entry key, e.g. "MyMod_Honey"
+  mods: string[]; // UniqueIDs, in folder order
+}
+
+// -----------------------------------------------------------------------------
+// Debug logging control (Installed Indexer)
+// Enable with env var:
+//   STARDEW_SCHEMA_DEBUG_INSTALLED_INDEX=1
+// -----------------------------------------------------------------------------
+function installedIndexDebugEnabled(): boolean {
+  return process.env.STARDEW_SCHEMA_DEBUG_INSTALLED_INDEX === "1";
+}
+
+export function dbg(msg: string): void {
+  if (installedIndexDebugEnabled()) {
+    console.log(msg);
+  }
+}
+
+/**
+ * Utility: expand CP-style DynamicTokens like {{ID}}, {{ASSETS}}, etc.
+ * - Skips special tokens 'i18n' and 'modid' (they are handled elsewhere).
+ * - Case-insensitive on token names (CP behavior).
+ */
+function expandDynamicTokens(
+  input: string,
+  dynamicTokens?: Map<string, string>
+): string {
+  if (!dynamicTokens || dynamicTokens.size === 0) return input;
+
+  return input.replace(/\{\{\s*([^}:]+?)\s*}}/g, (match, tokenName) => {
+    const lower = tokenName.trim().toLowerCase();
+    if (lower === "i18n" || lower === "modid") {
+      return match; // leave for i18n / ModId handling
+    }
+    const val = dynamicTokens.get(lower);
+    return typeof val === "string" ? val : match;
+  });
+}
+
+/**
+ * True if a string still contains *any* CP-style {{Token}} placeholder.
+ * Used to defer Include FromFile existence checks when tokens can't be resolved yet.
+ */
+function hasAnyCpToken(s: string): boolean {
+  return /\{\{[^}]+\}\}/.test(s);
+}
+
+function isObjectRecord(value: any): value is Record<string, any> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+// Unsaved editor text by file path, read instead of the file while scanWorkspaceMod runs
+let openDocumentTexts: Map<string, string> | undefined;
+
+function documentTextKey(fullPath: string): string {
+  const resolved = path.resolve(fullPath);
+  return process.platform === "win32" ? resolved.toLowerCase() : resolved;
+}
+
+function readTextFile(fullPath: string): string {
+  return openDocumentTexts?.get(documentTextKey(fullPath)) ?? fs.readFileSync(fullPath, "utf8");
+}
+
+function readJsoncFile(fullPath: string): any | null {
+  try {
+    const text = readTextFile(fullPath);
+    const errors: ParseError[] = [];
+    const json = parse(text, errors, { allowTrailingComma: true }) as any;
+    if (!json || typeof json !== "object") return null;
+    return json;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Expand simple {{Token}} replacements repeatedly to support nested cases like:
+ *   "{{i18n: item.{{Color}}Dye.name}}"
+ *
+ * This ONLY expands tokens present in tokenMap (case-insensitive),
+ * while still skipping i18n/modid placeholders (handled elsewhere).
+ */
+function expandTokensDeep(
+  input: string,
+  tokenMap?: Map<string, string>,
+  maxPasses = 10
+): string {
+  if (!tokenMap || tokenMap.size === 0) return input;
+
+  let value = input;
+
+  for (let pass = 0; pass < maxPasses; pass++) {
+    const next = value.replace(/\{\{\s*([^}:]+?)\s*}}/g, (match, tokenName) => {
+      const lower = tokenName.trim().toLowerCase();
+      if (lower === "i18n" || lower === "modid") {
+        return match;
+      }
+      const val = tokenMap.get(lower);
+      return typeof val === "string" ? val : match;
+    });
+
+    if (next === value) return value;
+    value = next;
+  }
+
+  return value;
+}
+
+function expandTokensInAny(value: any, tokenMap?: Map<string, string>): any {
+  if (!tokenMap || tokenMap.size === 0) return value;
+
+  if (typeof value === "string") {
+    return expandTokensDeep(value, tokenMap);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((v) => expandTokensInAny(v, tokenMap));
+  }
+
+  if (value && typeof value === "object") {
+    const out: any = {};
+    for (const [k, v] of Object.entries(value)) {
+      const newKey = typeof k === "string" ? expandTokensDeep(k, tokenMap) : k;
+      out[newKey] = expandTokensInAny(v, tokenMap);
+    }
+    return out;
+  }
+
+  return value;
+}
+
+/**
+ * Try to make a Stardew [LocalizedText ...] key readable.
+ *
+ * Examples:
+ *  "[LocalizedText Strings\\Objects:IceOrbRing_Name]" -> "Ice Orb Ring"
+ *  "[LocalizedText Strings\\BigCraftables:Keg_Name]"  -> "Keg"
+ */
+function friendlyFromLocalizedTextKey(rawKey: string): string {
+  if (!rawKey) return rawKey;
+
+  const key = rawKey.replace(/^"+|"+$/g, "").trim();
+
+  const colonIdx = key.lastIndexOf(":");
+  let tail = colonIdx >= 0 ? key.slice(colonIdx + 1) : key;
+
+  tail = tail.trim();
+
+  tail = tail.replace(/_(DisplayName|Name|title|Title|label|Label)$/i, "");
+  tail = tail.replace(/\.?(DisplayName|Name)$/i, "");
+
+  tail = tail.replace(/_/g, " ");
+  tail = tail.replace(/([a-z0-9])([A-Z])/g, "$1 $2");
+
+  tail = tail.replace(/\s+/g, " ").trim();
+
+  return tail || rawKey;
+}
+
+/**
+ * Replace any occurrences of:
+ *   [LocalizedText ...]
+ * within a string with a friendlier version.
+ */
+function resolveLocalizedTextInString(input: string): string {
+  if (typeof input !== "string" || !input) return input;
+
+  return input.replace(
+    /\[\s*LocalizedText\s+([^\]]+?)\s*]/gi,
+    (_m, innerKey) => {
+      const friendly = friendlyFromLocalizedTextKey(String(innerKey ?? ""));
+      return friendly || _m;
+    }
+  );
+}
+
+/**
+ * Resolve Content Patcher i18n tokens anywhere in a string:
+ *   "{{i18n:Some.Key}}"
+ *
+ * Supports multiple tokens in one string.
+ * Supports simple nesting by running multiple passes, but ONLY resolves
+ * i18n tokens whose inner key does not contain braces on that pass.
+ */
+function resolveI18nTokensInString(
+  input: string,
+  modI18n: Map<string, string>,
+  maxPasses = 10
+): string {
+  if (typeof input !== "string" || !input) return input;
+  if (!modI18n || modI18n.size === 0) return input;
+
+  let value = input;
+
+  const re = /\{\{\s*i18n\s*:\s*([^{}]+?)\s*}}/gi;
+
+  for (let pass = 0; pass < maxPasses; pass++) {
+    const next = value.replace(re, (_m, rawKey) => {
+      const key = String(rawKey ?? "").trim();
+      if (!key) return _m;
+
+      const translated = modI18n.get(key);
+      if (translated && translated.trim()) return translated.trim();
+
+      return key;
+    });
+
+    if (next === value) break;
+    value = next;
+  }
+
+  return value;
+}
+
+/**
+ * Apply all "make it readable" transforms for names:
+ * - Expand DynamicTokens
+ * - Expand {{modid}}
+ * - Resolve CP i18n tokens anywhere in the string
+ * - Resolve [LocalizedText ...] tokens to friendlier text
+ */
+function makeNameReadable(
+  input: string,
+  modI18n: Map<string, string>,
+  modId: string,
+  dynamicTokens?: Map<string, string>
+): string {
+  let s = input ?? "";
+  if (typeof s !== "string") s = String(s);
+
+  s = expandDynamicTokens(s, dynamicTokens);
+  s = s.replace(/\{\{\s*modid\s*\}\}/gi, modId);
+
+  s = resolveI18nTokensInString(s, modI18n);
+  s = resolveLocalizedTextInString(s);
+
+  s = s.replace(/\s+/g, " ").trim();
+
+  return s;
+}
+
+/**
+ * Load i18n key→value map for a directory that has i18n/*.json / i18n/*.jsonc.
+ *
+ * Supports both:
+ *  - i18n/default.json, i18n/en.json, etc.
+ *  - i18n/default/default.json, i18n/default/handbook.json, i18n/en/en.json, ...
+ *
+ * We ONLY load locales:
+ *  - default
+ *  - en
+ *  - en-*
+ */
+function loadModI18n(dir: string): Map<string, string> {
+  const map = new Map<string, string>();
+  const i18nRoot = path.join(dir, "i18n");
+
+  if (!fs.existsSync(i18nRoot) || !fs.statSync(i18nRoot).isDirectory()) {
+    return map;
+  }
+
+  const isDefaultOrEnglishName = (name: string): boolean => {
+    const lower = name.toLowerCase().replace(/\.jsonc?$/, "");
+    if (lower === "default") return true;
+    if (lower === "en") return true;
+    if (lower.startsWith("en-")) return true;
+    return false;
+  };
+
+  const loadI18nFile = (fullPath: string) => {
+    try {
+      const text = readTextFile(fullPath);
+      const errors: ParseError[] = [];
+      const json = parse(text, errors, { allowTrailingComma: true }) as any;
+      if (!json || typeof json !== "object") return;
+
+      for (const key of Object.keys(json)) {
+        const val = json[key];
+        if (typeof val === "string") {
+          map.set(key, val);
+        }
+      }
+    } catch {
+      // ignore
+    }
+  };
+
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(i18nRoot, { withFileTypes: true });
+  } catch {
+    return map;
+  }
+
+  // Case 1: files directly under i18n/
+  for (const entry of entries) {
+    if (entry.isFile()) {
+      const name = entry.name;
+      if (
+        (name.toLowerCase().endsWith(".json") ||
+          name.toLowerCase().endsWith(".jsonc")) &&
+        isDefaultOrEnglishName(name)
+      ) {
+        loadI18nFile(path.join(i18nRoot, name));
+      }
+    }
+  }
+
+  // Case 2: locale subfolders
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+
+    const localeName = entry.name;
+    if (!isDefaultOrEnglishName(localeName)) continue;
+
+    const localeDir = path.join(i18nRoot, localeName);
+    let localeEntries: fs.Dirent[];
+    try {
+      localeEntries = fs.readdirSync(localeDir, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+
+    for (const fileEntry of localeEntries) {
+      if (!fileEntry.isFile()) continue;
+      const fname = fileEntry.name.toLowerCase();
+      if (!fname.endsWith(".json") && !fname.endsWith(".jsonc")) continue;
+
+      loadI18nFile(path.join(localeDir, fileEntry.name));
+    }
+  }
+
+  return map;
+}
+
+/**
+ * Every value a mod's tokens can take, evaluated from content.json:
+ *  - ConfigSchema options: Default plus each AllowValues entry
+ *  - DynamicTokens: each Value entry (nested tokens enumerated too)
+ *
+ * `defaults` is what the tokens resolve to with the default config; conditions on
+ * tokens we can't evaluate (Season, HasMod, ...) are treated as unmet there.
+ * `variants` holds the tokens that can take more than one value.
+ */
+interface ModTokens {
+  defaults: Map<string, string>; // lowercased name -> value
+  variants: Map<string, string[]>; // lowercased name -> all values, default first
+  names: Map<string, string>; // lowercased name -> name as declared
+  config: Map<string, { default?: string; allowValues: string[] }>;
+}
+
+// Cap on the combinations enumerated for one string (Include FromFile, entry key, token value)
+const MAX_TOKEN_VARIANTS = 32;
+
+function splitTokenValueList(raw: unknown): string[] {
+  const list = Array.isArray(raw) ? raw.map(String) : String(raw ?? "").split(",");
+  return list.map((v) => v.trim()).filter(Boolean);
+}
+
+function uniqueValues(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter((v) => {
+    const key = v.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Lowercased names of the {{tokens}} in a string (skipping i18n/ModId).
+ */
+function referencedTokenNames(text: string): string[] {
+  const names = new Set<string>();
+  for (const m of text.matchAll(/\{\{\s*([^}:|]+?)\s*(?:[|:][^}]*)?}}/g)) {
+    const lower = m[1].trim().toLowerCase();
+    if (lower !== "i18n" && lower !== "modid") names.add(lower);
+  }
+  return Array.from(names);
+}
+
+/**
+ * Every combination of values for the multi-valued tokens a string references
+ * (capped at MAX_TOKEN_VARIANTS). Always returns at least one (possibly empty) binding.
+ */
+function enumerateTokenBindings(text: string, tokens: ModTokens): Map<string, string>[] {
+  let bindings: Map<string, string>[] = [new Map()];
+
+  for (const name of referencedTokenNames(text)) {
+    const values = tokens.variants.get(name);
+    if (!values || values.length < 2) continue;
+
+    const next: Map<string, string>[] = [];
+    for (const binding of bindings) {
+      for (const value of values) {
+        if (next.length >= MAX_TOKEN_VARIANTS) break;
+        next.push(new Map(binding).set(name, value));
+      }
+    }
+    bindings = next;
+  }
+
+  return bindings;
+}
+
+/**
+ * Token values with a binding applied on top of the defaults.
+ */
+function withTokenBinding(tokens: ModTokens, binding: Map<string, string>): Map<string, string> {
+  if (binding.size === 0) return tokens.defaults;
+  const map = new Map(tokens.defaults);
+  for (const [name, value] of binding) map.set(name, value);
+  return map;
+}
+
+/**
+ * A binding as a When block ({ "Color": "Blue" }), so items indexed under it record
+ * which token value they depend on.
+ */
+function tokenBindingToWhen(tokens: ModTokens, binding: Map<string, string>): Record<string, string> {
+  const when: Record<string, string> = {};
+  for (const [name, value] of binding) when[tokens.names.get(name) ?? name] = value;
+  return when;
+}
+
+/**
+ * Evaluate a DynamicTokens When block against known token values. Keys naming tokens
+ * we don't know (Season, HasMod, ...) count as unmet.
+ */
+function isWhenMet(when: unknown, values: Map<string, string>): boolean {
+  if (!isObjectRecord(when)) return true;
+
+  for (const [rawKey, rawExpected] of Object.entries(when)) {
+    const name = rawKey.replace(/^\{\{\s*|\s*\}\}$/g, "").trim().toLowerCase();
+    const actual = values.get(name);
+    if (actual === undefined) return false;
+
+    const expected = splitTokenValueList(expandTokensDeep(String(rawExpected), values)).map((v) =>
+      v.toLowerCase()
+    );
+    const actualValues = splitTokenValueList(actual).map((v) => v.toLowerCase());
+    if (!actualValues.some((v) => expected.includes(v))) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Load ConfigSchema and DynamicTokens from <modDir>/content.json.
+ */
+function loadModTokens(modDir: string): ModTokens {
+  const tokens: ModTokens = {
+    defaults: new Map(),
+    variants: new Map(),
+    names: new Map(),
+    config: new Map(),
+  };
+
+  const json = readJsoncFile(path.join(modDir, "content.json"));
+  if (!isObjectRecord(json)) return tokens;
+
+  if (isObjectRecord(json.ConfigSchema)) {
+    for (const [rawName, def] of Object.entries<any>(json.ConfigSchema)) {
+      const name = rawName.trim();
+      if (!name) continue;
+      const lower = name.toLowerCase();
+
+      const allowValues = isObjectRecord(def) ? splitTokenValueList(def.AllowValues) : [];
+      const defaultValue =
+        isObjectRecord(def) && def.Default !== undefined ? String(def.Default).trim() : undefined;
+
+      tokens.config.set(lower, { default: defaultValue, allowValues });
+      tokens.names.set(lower, name);
+
+      const effectiveDefault = defaultValue || allowValues[0];
+      if (effectiveDefault) tokens.defaults.set(lower, effectiveDefault);
+
+      const values = uniqueValues([...(effectiveDefault ? [effectiveDefault] : []), ...allowValues]);
+      if (values.length > 0) tokens.variants.set(lower, values);
+    }
+  }
+
+  if (Array.isArray(json.DynamicTokens)) {
+    // Name -> last Value seen, for tokens none of whose entries apply with the default config
+    const fallback = new Map<string, string>();
+    const applied = new Set<string>();
+
+    for (const tokenDef of json.DynamicTokens) {
+      if (!isObjectRecord(tokenDef) || typeof tokenDef.Name !== "string") continue;
+      if (typeof tokenDef.Value !== "string" || !tokenDef.Value.trim()) continue;
+
+      const name = tokenDef.Name.trim();
+      const lower = name.toLowerCase();
+      const rawValue = tokenDef.Value.trim();
+      tokens.names.set(lower, name);
+
+      // Every reachable value: enumerate the tokens the value itself references
+      const values = tokens.variants.get(lower) ?? [];
+      for (const binding of enumerateTokenBindings(rawValue, tokens)) {
+        values.push(expandTokensDeep(rawValue, withTokenBinding(tokens, binding)));
+      }
+      tokens.variants.set(lower, uniqueValues(values));
+
+      // Later entries override earlier ones when their conditions match (CP order)
+      const resolved = expandTokensDeep(rawValue, tokens.defaults);
+      fallback.set(lower, resolved);
+      if (isWhenMet(tokenDef.When, tokens.defaults)) {
+        tokens.defaults.set(lower, resolved);
+        applied.add(lower);
+      }
+    }
+
+    for (const [lower, value] of fallback) {
+      if (!applied.has(lower) && !tokens.config.has(lower)) tokens.defaults.set(lower, value);
+    }
+  }
+
+  // Default value first, so the first binding matches the default config
+  for (const [lower, values] of tokens.variants) {
+    const def = tokens.defaults.get(lower);
+    if (def !== undefined) {
+      tokens.variants.set(lower, uniqueValues([def, ...values]));
+    }
+  }
+
+  return tokens;
+}
+
+// Field set on patches pulled in by an Include: the When blocks of the enclosing
+// Include(s) and token variants, outermost first. Kept apart from the patch's own When
+// because Content Patcher requires all of them, even when they test the same key.
+const INHERITED_WHEN_FIELD = "__inheritedWhen";
+
+function inheritedWhenBlocks(patch: any): Record<string, unknown>[] {
+  const blocks = patch?.[INHERITED_WHEN_FIELD];
+  return Array.isArray(blocks) ? blocks : [];
+}
+
+/**
+ * Turn a patch's When block into item conditions, classifying each key as a
+ * ConfigSchema option, a HasMod check or another token.
+ */
+function readWhenConditions(
+  when: unknown,
+  tokens: ModTokens,
+  modId: string
+): ItemCondition[] | undefined {
+  if (!isObjectRecord(when)) return;
+
+  const conditions: ItemCondition[] = [];
+  for (const [rawKey, rawValue] of Object.entries(when)) {
+    const key = rawKey.trim();
+    if (!key) continue;
+
+    const value = (Array.isArray(rawValue) ? rawValue.map(String).join(", ") : String(rawValue))
+      .replace(/\{\{\s*modid\s*\}\}/gi, modId);
+    const expandedValue = expandDynamicTokens(value, tokens.defaults).trim();
+
+    // "{{EnableFancyCrops}}", "HasMod |contains=Foo", "Season" → token name
+    const tokenName = key.replace(/^\{\{\s*|\s*\}\}$/g, "").split(/[\s|:]/)[0].toLowerCase();
+
+    const condition: ItemCondition = { key, value: expandedValue, kind: "token" };
+    const config = tokens.config.get(tokenName);
+    if (config) {
+      condition.kind = "config";
+      if (config.default !== undefined) condition.configDefault = config.default;
+    } else if (tokenName === "hasmod") {
+      condition.kind = "mod";
+    }
+    conditions.push(condition);
+  }
+
+  return conditions.length > 0 ? conditions : undefined;
+}
+
+/**
+ * Every condition a patch applies under: those inherited from its Includes, its own
+ * When, then the token values that selected this variant. A key tested at several
+ * levels yields one condition per level (identical ones are listed once).
+ */
+function readPatchConditions(
+  patch: any,
+  tokens: ModTokens,
+  modId: string,
+  variantWhen?: Record<string, string>
+): ItemCondition[] | undefined {
+  const conditions: ItemCondition[] = [];
+  const seen = new Set<string>();
+
+  for (const block of [...inheritedWhenBlocks(patch), patch.When, variantWhen]) {
+    for (const condition of readWhenConditions(block, tokens, modId) ?? []) {
+      const key = `${condition.key.toLowerCase()}|${condition.value}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      conditions.push(condition);
+    }
+  }
+
+  return conditions.length > 0 ? conditions : undefined;
+}
+
+interface ModIdentity {
+  modId: string;
+  modName: string;
+  version?: string;
+  contentPackFor?: string;
+  dependencies: string[]; // UniqueIDs from Dependencies, plus ContentPackFor
+}
+
+/**
+ * Read UniqueID + Name (+ Version, ContentPackFor, Dependencies) from a manifest.json
+ * (or fall back to folder name).
+ */
+function readManifestIdentity(modDir: string): ModIdentity {
+  const folderName = path.basename(modDir);
+
+  let modId = folderName;
+  let modName = folderName;
+  let version: string | undefined;
+  let contentPackFor: string | undefined;
+  const dependencies: string[] = [];
+
+  const manifestPath = path.join(modDir, "manifest.json");
+  if (!fs.existsSync(manifestPath)) {
+    return { modId, modName, dependencies };
+  }
+
+  try {
+    const text = fs.readFileSync(manifestPath, "utf8");
+    const errors: ParseError[] = [];
+    const json = parse(text, errors, { allowTrailingComma: true }) as any;
+
+    if (json && typeof json === "object") {
+      const rawUniqueId =
+        json.UniqueID ?? json.UniqueId ?? json.uniqueID ?? json.uniqueId;
+
+      if (typeof rawUniqueId === "string" && rawUniqueId.trim()) {
+        modId = rawUniqueId.trim();
+      }
+
+      const rawName = json.Name;
+      if (typeof rawName === "string" && rawName.trim()) {
+        modName = rawName.trim();
+      } else {
+        modName = modId;
+      }
+
+      if (typeof json.Version === "string") {
+        version = json.Version.trim();
+      }
+
+      const rawPackFor = json.ContentPackFor?.UniqueID ?? json.ContentPackFor?.UniqueId;
+      if (typeof rawPackFor === "string" && rawPackFor.trim()) {
+        contentPackFor = rawPackFor.trim();
+        dependencies.push(contentPackFor);
+      }
+
+      if (Array.isArray(json.Dependencies)) {
+        for (const dep of json.Dependencies) {
+          const depId = dep?.UniqueID ?? dep?.UniqueId;
+          if (typeof depId === "string" && depId.trim()) dependencies.push(depId.trim());
+        }
+      }
+    }
+  } catch {
+    // ignore
+  }
+
+  return { modId, modName, version, contentPackFor, dependencies };
+}
+
+/** Lowercased UniqueIDs of the installed mods. */
+function buildKnownModIds(modDirs: string[]): Set<string> {
+  const ids = new Set<string>();
+
+  for (const dir of modDirs) {
+    const id = readManifestIdentity(dir);
+    if (id.modId && id.modId.trim()) {
+      ids.add(id.modId.trim().toLowerCase());
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Owner of an ID that a mod references but no installed mod defines. A dependency
+ * (or ContentPackFor) that is installed would have defined it, so only a missing one
+ * whose UniqueID prefixes the ID can claim it; anything else stays with the referrer.
+ */
+function resolveReferenceOwner(
+  innerId: string,
+  referrer: { modId: string; modName: string; dependencies: string[] },
+  knownModIds: Set<string>
+): { modId: string; modName: string } {
+  const s = innerId.trim().toLowerCase();
+
+  let best: string | undefined;
+  for (const dep of referrer.dependencies) {
+    const d = dep.toLowerCase();
+    if (knownModIds.has(d)) continue;
+    const matches = s === d || s.startsWith(d + "_") || s.startsWith(d + ".");
+    if (matches && (!best || dep.length > best.length)) best = dep;
+  }
+  if (best) return { modId: best, modName: best };
+
+  return { modId: referrer.modId, modName: referrer.modName };
+}
+
+/**
+ * True when no entry of this mod claims the ID yet, or only a reference does (a shop
+ * listing an item before the patch that adds it).
+ */
+function isUnclaimed(qualifiedId: string, qualifiedIdToInfo: Map<string, InstalledItemInfo>): boolean {
+  const existing = qualifiedIdToInfo.get(qualifiedId);
+  return !existing || existing.referenceOnly === true;
+}
+
+/**
+ * Map Content Patcher EditData targets → category + prefix.
+ */
+export const TARGET_TO_CATEGORY: Record<string, { prefix: string; category: string }> = {
+  "Data/Objects": { prefix: "O", category: "objects" },
+  "Data/BigCraftables": { prefix: "BC", category: "bigCraftables" },
+  "Data/Weapons": { prefix: "W", category: "weapons" },
+  "Data/Furniture": { prefix: "F", category: "furniture" },
+  "Data/Boots": { prefix: "B", category: "boots" },
+  "Data/Hats": { prefix: "H", category: "hats" },
+  "Data/Shirts": { prefix: "S", category: "shirts" },
+  "Data/Pants": { prefix: "P", category: "pants" },
+  "Data/Tools": { prefix: "T", category: "tools" },
+  "Data/Mannequins": { prefix: "M", category: "mannequins" },
+  "Data/Trinkets": { prefix: "TR", category: "trinkets" },
+};
+
+/**
+ * Data/AdditionalWallpaperFlooring defines whole sets: each entry adds
+ * Count items as (WP)<Id>:<index> or (FL)<Id>:<index>.
+ */
+const WALLPAPER_FLOORING_TARGET = "Data/AdditionalWallpaperFlooring";
+
+// Sanity cap so a typo'd Count doesn't add thousands of entries
+const MAX_WALLPAPER_FLOORING_COUNT = 512;
+
+const PREFIX_TO_TARGET: Record<string, string> = Object.fromEntries(
+  Object.entries(TARGET_TO_CATEGORY).map(([target, info]) => [info.prefix, target])
+);
+
+const PREFIX_TO_CATEGORY_KEY: Record<string, string> = {
+  O: "objects",
+  BC: "bigCraftables",
+  F: "furniture",
+  B: "boots",
+  FL: "flooring",
+  H: "hats",
+  M: "mannequins",
+  S: "shirts",
+  P: "pants",
+  T: "tools",
+  TR: "trinkets",
+  W: "weapons",
+  WP: "wallpapers",
+};
+
+const REFERENCE_TARGETS = new Set<string>([
+  "Data/Machines",
+  "Data/CookingRecipes",
+  "Data/CraftingRecipes",
+  "Data/Shops",
+  "Data/Events",
+  "Data/NPCGiftTastes",
+  "Data/Locations",
+]);
+
+/**
+ * EditData targets whose entry keys are NPC, location, building or farm animal IDs,
+ * and the field holding each entry's display name.
+ */
+const ENTITY_TARGETS: Record<string, { kind: EntityKind; nameField: string }> = {
+  "Data/Characters": { kind: "npc", nameField: "DisplayName" },
+  "Data/Locations": { kind: "location", nameField: "DisplayName" },
+  "Data/Buildings": { kind: "building", nameField: "Name" },
+  "Data/FarmAnimals": { kind: "farmAnimal", nameField: "DisplayName" },
+};
+
+const KNOWN_PATCH_TARGETS = new Map<string, string>(
+  [
+    ...Object.keys(TARGET_TO_CATEGORY),
+    ...REFERENCE_TARGETS,
+    ...Object.keys(ENTITY_TARGETS),
+    WALLPAPER_FLOORING_TARGET,
+  ].map((target) => [target.toLowerCase(), target])
+);
+
+/**
+ * Split an EditData patch into one patch per target, as Content Patcher does for
+ * comma-separated Target values. Targets are compared like asset names (case-insensitive,
+ * either slash), so each copy carries the canonical name ("Data/Objects").
+ */
+function splitPatchTargets(patch: any, modId: string, dynamicTokens?: Map<string, string>): any[] {
+  if (patch.Action !== "EditData" || typeof patch.Target !== "string") return [patch];
+
+  const targets = expandModTokens(patch.Target, modId, dynamicTokens)
+    .split(",")
+    .map((t) => normalizeAssetName(t))
+    .filter(Boolean);
+
+  return targets.map((target) => ({
+    ...patch,
+    Target: KNOWN_PATCH_TARGETS.get(target.toLowerCase()) ?? target,
+  }));
+}
+
+/**
+ * Resolve a human-friendly display name for an added item.
+ *
+ * Updated: resolves i18n tokens inside strings and LocalizedText keys to readable text.
+ */
+function resolveItemDisplayName(
+  entryData: any,
+  innerId: string,
+  modI18n: Map<string, string>,
+  modId: string,
+  dynamicTokens?: Map<string, string>
+): string {
+  let nameCandidate: string | undefined;
+
+  if (entryData && typeof entryData === "object") {
+    if (typeof entryData.DisplayName === "string") {
+      nameCandidate = entryData.DisplayName.trim();
+    } else if (typeof entryData.Displayname === "string") {
+      nameCandidate = entryData.Displayname.trim();
+    } else if (typeof entryData.Name === "string") {
+      nameCandidate = entryData.Name.trim();
+    }
+  }
+
+  if (!nameCandidate) {
+    return innerId;
+  }
+
+  const readable = makeNameReadable(nameCandidate, modI18n, modId, dynamicTokens);
+  return readable || innerId;
+}
+
+/**
+ * Inline Data/Furniture parser
+ */
+function resolveFurnitureInlineDisplayName(
+  rawValue: string,
+  innerId: string,
+  modI18n: Map<string, string>,
+  modId: string,
+  dynamicTokens?: Map<string, string>
+): string {
+  if (typeof rawValue !== "string" || !rawValue.trim()) {
+    return innerId;
+  }
+
+  const expanded = expandDynamicTokens(rawValue, dynamicTokens);
+  const parts = expanded.split("/");
+
+  const internalName = (parts[0] ?? "").trim();
+  const displayPart = (parts[7] ?? "").trim();
+
+  if (!displayPart) {
+    return internalName || innerId;
+  }
+
+  const readable = makeNameReadable(displayPart, modI18n, modId, dynamicTokens);
+  return readable || internalName || innerId;
+}
+
+/**
+ * Inline Data/Boots parser
+ */
+function resolveBootsInlineDisplayName(
+  rawValue: string,
+  innerId: string,
+  modI18n: Map<string, string>,
+  modId: string,
+  dynamicTokens?: Map<string, string>
+): string {
+  if (typeof rawValue !== "string" || !rawValue.trim()) {
+    return innerId;
+  }
+
+  const expanded = expandDynamicTokens(rawValue, dynamicTokens);
+  const parts = expanded.split("/");
+
+  const internalName = (parts[0] ?? "").trim();
+  const displayPart = (parts[6] ?? "").trim();
+
+  if (!displayPart) {
+    return internalName || innerId;
+  }
+
+  const readable = makeNameReadable(displayPart, modI18n, modId, dynamicTokens);
+  return readable || internalName || innerId;
+}
+
+/**
+ * Inline Data/Hats parser
+ */
+function resolveHatsInlineDisplayName(
+  rawValue: string,
+  innerId: string,
+  modI18n: Map<string, string>,
+  modId: string,
+  dynamicTokens?: Map<string, string>
+): string {
+  if (typeof rawValue !== "string" || !rawValue.trim()) {
+    return innerId;
+  }
+
+  const expanded = expandDynamicTokens(rawValue, dynamicTokens);
+  const parts = expanded.split("/");
+
+  const internalName = (parts[0] ?? "").trim();
+  const displayPart = (parts[5] ?? "").trim();
+
+  if (!displayPart) {
+    return internalName || innerId;
+  }
+
+  const readable = makeNameReadable(displayPart, modI18n, modId, dynamicTokens);
+  return readable || internalName || innerId;
+}
+
+/**
+ * Content Patcher asset names are case-insensitive and accept either slash.
+ */
+function normalizeAssetName(name: string): string {
+  return name.replace(/\\/g, "/").trim().toLowerCase();
+}
+
+/**
+ * Resolve a `Load` patch to (asset name, FromFile) pairs, one per comma-separated
+ * target. FromFile may use {{Target}}, {{TargetPathOnly}} and {{TargetWithoutPath}};
+ * pairs that still contain unresolved tokens are skipped.
+ */
+function resolveLoadPatchFiles(
+  patch: any,
+  modId: string,
+  dynamicTokens: Map<string, string> | undefined
+): { target: string; fromFile: string }[] {
+  if (typeof patch.Target !== "string" || typeof patch.FromFile !== "string") {
+    return [];
+  }
+
+  const targets = patch.Target.split(",")
+    .map((t: string) =>
+      expandDynamicTokens(t.trim(), dynamicTokens).replace(/\{\{\s*modid\s*\}\}/gi, modId)
+    )
+    .filter((t: string) => t && !hasAnyCpToken(t));
+
+  const resolved: { target: string; fromFile: string }[] = [];
+  for (const target of targets) {
+    const normalized = target.replace(/\\/g, "/");
+    const slash = normalized.lastIndexOf("/");
+
+    let fromFile = expandDynamicTokens(patch.FromFile.trim(), dynamicTokens);
+    fromFile = fromFile
+      .replace(/\{\{\s*modid\s*\}\}/gi, modId)
+      .replace(/\{\{\s*TargetPathOnly\s*\}\}/gi, slash >= 0 ? normalized.slice(0, slash) : "")
+      .replace(/\{\{\s*TargetWithoutPath\s*\}\}/gi, normalized.slice(slash + 1))
+      .replace(/\{\{\s*Target\s*\}\}/gi, normalized);
+
+    if (hasAnyCpToken(fromFile)) continue;
+    resolved.push({ target: normalized, fromFile });
+  }
+  return resolved;
+}
+
+/**
+ * Record PNG `Action: Load` patches (asset name → absolute file) so item
+ * Texture fields can be resolved to a spritesheet for hover previews.
+ */
+function collectTextureLoads(
+  patch: any,
+  modDir: string,
+  modId: string,
+  dynamicTokens: Map<string, string> | undefined,
+  into: Map<string, string>
+): void {
+  for (const { target, fromFile } of resolveLoadPatchFiles(patch, modId, dynamicTokens)) {
+    if (!fromFile.toLowerCase().endsWith(".png")) continue;
+    into.set(normalizeAssetName(target), path.resolve(modDir, fromFile));
+  }
+}
+
+/**
+ * Turn a `Load` of a JSON file into a Data asset the indexer understands (item
+ * targets, reference targets, AdditionalWallpaperFlooring) into an equivalent
+ * EditData patch whose Entries are the file's contents. Tokens in Target/FromFile
+ * are enumerated like Include's, and each variant keeps the token values it needs
+ * as When conditions. Anything else is returned unchanged.
+ */
+function expandJsonLoadPatches(
+  patch: any,
+  modDir: string,
+  modId: string,
+  tokens: ModTokens
+): any[] {
+  if (patch.Action !== "Load" || typeof patch.Target !== "string" || typeof patch.FromFile !== "string") {
+    return [patch];
+  }
+
+  const converted: any[] = [];
+  for (const binding of enumerateTokenBindings(`${patch.Target} ${patch.FromFile}`, tokens)) {
+    const dynamicTokens = withTokenBinding(tokens, binding);
+    const variantWhen = tokenBindingToWhen(tokens, binding);
+
+    for (const { target, fromFile } of resolveLoadPatchFiles(patch, modId, dynamicTokens)) {
+      if (!fromFile.toLowerCase().endsWith(".json")) continue;
+
+      const canonicalTarget = KNOWN_PATCH_TARGETS.get(normalizeAssetName(target));
+      if (!canonicalTarget) {
+        dbg(`[InstalledIndex] LOAD skipped (unsupported target): '${target}' <- '${fromFile}'`);
+        continue;
+      }
+
+      const loadedJson = readJsoncFile(path.resolve(modDir, fromFile));
+      if (!isObjectRecord(loadedJson)) {
+        dbg(`[InstalledIndex] LOAD skipped (missing or not an object): '${fromFile}'`);
+        continue;
+      }
+
+      const when = { ...(isObjectRecord(patch.When) ? patch.When : {}), ...variantWhen };
+      converted.push({
+        Action: "EditData",
+        Target: canonicalTarget,
+        Entries: expandTokensInAny(loadedJson, buildIncludeTokenMap(modId, dynamicTokens)),
+        ...(Object.keys(when).length > 0 ? { When: when } : {}),
+        ...(inheritedWhenBlocks(patch).length > 0
+          ? { [INHERITED_WHEN_FIELD]: inheritedWhenBlocks(patch) }
+          : {}),
+      });
+    }
+  }
+
+  // PNG loads (and JSON loads we can't index) still go through as Load patches
+  return converted.length > 0 ? converted : [patch];
+}
+
+const I18N_TOKEN_RE = /\{\{\s*i18n\s*:/i;
+
+function toFiniteNumber(raw: unknown): number | undefined {
+  const n =
+    typeof raw === "number"
+      ? raw
+      : typeof raw === "string" && raw.trim()
+        ? Number(raw.trim())
+        : NaN;
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function expandModTokens(
+  raw: string,
+  modId: string,
+  dynamicTokens?: Map<string, string>
+): string {
+  return expandDynamicTokens(raw.trim(), dynamicTokens).replace(
+    /\{\{\s*modid\s*\}\}/gi,
+    modId
+  );
+}
+
+/** Copy one metadata field onto `target` when `source` has a value for it. */
+function copyDefinedField<K extends keyof InstalledItemMetadata>(
+  target: InstalledItemMetadata,
+  source: InstalledItemMetadata,
+  field: K
+): void {
+  const value = source[field];
+  if (value !== undefined) target[field] = value;
+}
+
+/**
+ * Read the optional Data fields (sprite, price, category, tags, description)
+ * from an added entry. Handles object-style entries (Data/Objects, Data/BigCraftables, ...)
+ * and the slash-delimited inline formats of Data/Furniture, Data/Boots and Data/Hats.
+ */
+function readItemMetadata(
+  target: string,
+  entryData: any,
+  modI18n: Map<string, string>,
+  modId: string,
+  dynamicTokens?: Map<string, string>
+): InstalledItemMetadata {
+  const out: InstalledItemMetadata = {};
+
+  if (isObjectRecord(entryData)) {
+    if (typeof entryData.Name === "string" && entryData.Name.trim()) {
+      const internalName = expandModTokens(entryData.Name.trim(), modId, dynamicTokens);
+      if (!hasAnyCpToken(internalName)) out.internalName = internalName;
+    }
+    if (typeof entryData.Texture === "string" && entryData.Texture.trim()) {
+      out.texture = expandModTokens(entryData.Texture, modId, dynamicTokens);
+    }
+    out.spriteIndex = toFiniteNumber(entryData.SpriteIndex);
+    out.price = toFiniteNumber(entryData.Price);
+    out.itemCategory = toFiniteNumber(entryData.Category);
+    out.edibility = toFiniteNumber(entryData.Edibility);
+
+    if (typeof entryData.Type === "string" && entryData.Type.trim()) {
+      out.type = entryData.Type.trim();
+    }
+
+    if (Array.isArray(entryData.ContextTags)) {
+      const tags = entryData.ContextTags.filter((t: unknown) => typeof t === "string")
+        .map((t: string) => expandModTokens(t, modId, dynamicTokens))
+        .filter(Boolean);
+      if (tags.length > 0) out.contextTags = tags;
+    }
+
+    if (typeof entryData.Description === "string" && entryData.Description.trim()) {
+      out.description = makeNameReadable(entryData.Description, modI18n, modId, dynamicTokens);
+    }
+
+    const displayName = entryData.DisplayName ?? entryData.Displayname;
+    if (typeof displayName === "string" && I18N_TOKEN_RE.test(displayName)) {
+      out.nameKey = expandModTokens(displayName, modId, dynamicTokens);
+    }
+  } else if (typeof entryData === "string" && entryData.trim()) {
+    const parts = expandDynamicTokens(entryData, dynamicTokens).split("/");
+    const field = (i: number) => (parts[i] ?? "").trim();
+
+    if (field(0)) {
+      const internalName = expandModTokens(field(0), modId, dynamicTokens);
+      if (!hasAnyCpToken(internalName)) out.internalName = internalName;
+    }
+
+    const displayField = target === "Data/Furniture" ? 7 : target === "Data/Boots" ? 6 : 5;
+    if (I18N_TOKEN_RE.test(field(displayField))) {
+      out.nameKey = expandModTokens(field(displayField), modId, dynamicTokens);
+    }
+
+    if (target === "Data/Furniture") {
+      // name/type/tilesheet size/bounding box/rotations/price/placement/display name/sprite index/texture/off limits/context tags
+      out.price = toFiniteNumber(field(5));
+      out.spriteIndex = toFiniteNumber(field(8));
+      if (field(9)) out.texture = expandModTokens(field(9), modId, dynamicTokens);
+      const tags = field(11).split(/\s+/).filter(Boolean);
+      if (tags.length > 0) out.contextTags = tags;
+    } else if (target === "Data/Boots") {
+      // name/description/price/defense/immunity/color index/display name/color texture/sprite index/texture
+      out.price = toFiniteNumber(field(2));
+      out.spriteIndex = toFiniteNumber(field(8));
+      if (field(9)) out.texture = expandModTokens(field(9), modId, dynamicTokens);
+      if (field(1)) out.description = makeNameReadable(field(1), modI18n, modId, dynamicTokens);
+    } else if (target === "Data/Hats") {
+      // name/description/show real hair/skip hairstyle offset/tags/display name/sprite index/texture
+      out.spriteIndex = toFiniteNumber(field(6));
+      if (field(7)) out.texture = expandModTokens(field(7), modId, dynamicTokens);
+      if (field(1)) out.description = makeNameReadable(field(1), modI18n, modId, dynamicTokens);
+    }
+  }
+
+  for (const key of Object.keys(out) as (keyof InstalledItemMetadata)[]) {
+    if (out[key] === undefined) delete out[key];
+  }
+
+  return out;
+}
+
+function buildIncludeTokenMap(
+  modId: string,
+  dynamicTokens?: Map<string, string>,
+  localTokens?: any
+): Map<string, string> {
+  const tokenMap = new Map<string, string>();
+
+  if (dynamicTokens) {
+    for (const [k, v] of dynamicTokens.entries()) {
+      tokenMap.set(String(k).trim().toLowerCase(), String(v ?? "").trim());
+    }
+  }
+
+  if (localTokens && typeof localTokens === "object") {
+    for (const [k, v] of Object.entries(localTokens)) {
+      // LocalTokens may themselves reference dynamic/config tokens
+      tokenMap.set(
+        String(k).trim().toLowerCase(),
+        expandTokensDeep(String(v ?? "").trim(), dynamicTokens)
+      );
+    }
+  }
+
+  // Always include modid so LocalTokens can reference it if desired.
+  tokenMap.set("modid", modId);
+
+  return tokenMap;
+}
+
+function splitFromFileValue(raw: unknown): string[] {
+  if (Array.isArray(raw)) {
+    return raw
+      .filter((x): x is string => typeof x === "string")
+      .map((s) => s.trim())
+      .filter(Boolean);
+  }
+
+  if (typeof raw !== "string") {
+    return [];
+  }
+
+  return raw
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+// -----------------------------------------------------------------------------
+// Include warning/log dedupe
+// -----------------------------------------------------------------------------
+const warnedMissingIncludes = new Set<string>();
+const warnedDeferredIncludes = new Set<string>();
+
+// Debug-level dedupe so "INCLUDE resolved" doesn't appear 500 times even with debug on.
+const debugResolvedIncludes = new Set<string>();
+
+function resetIncludeLogCaches(): void {
+  warnedMissingIncludes.clear();
+  warnedDeferredIncludes.clear();
+  debugResolvedIncludes.clear();
+}
+
+function expandIncludePatches(
+  changes: any[],
+  modDir: string,
+  modId: string,
+  tokens: ModTokens
+): any[] {
+  const expanded: any[] = [];
+
+  dbg(
+    `[InstalledIndex] expandIncludePatches: modId='${modId}', modDir='${modDir}', changes=${
+      Array.isArray(changes) ? changes.length : 0
+    }`
+  );
+
+  for (const patch of changes) {
+    if (!patch || typeof patch !== "object") continue;
+
+    if (patch.Action !== "Include") {
+      expanded.push(patch);
+      continue;
+    }
+
+    const fromFiles = splitFromFileValue((patch as any).FromFile);
+
+    if (fromFiles.length === 0) {
+      dbg(
+        `[InstalledIndex] INCLUDE skipped: empty/invalid FromFile (type=${typeof (patch as any).FromFile})`
+      );
+      expanded.push(patch);
+      continue;
+    }
+
+    if (patch.LocalTokens && typeof patch.LocalTokens === "object") {
+      const keys = Object.keys(patch.LocalTokens);
+      dbg(`[InstalledIndex] INCLUDE LocalTokens keys: ${keys.join(", ")}`);
+    } else {
+      dbg(`[InstalledIndex] INCLUDE LocalTokens: <none>`);
+    }
+
+    for (const fromFileRaw of fromFiles) {
+      const fromFile = fromFileRaw.trim();
+      if (!fromFile) continue;
+
+      // One include per reachable value of the tokens in FromFile (directly or via LocalTokens),
+      // e.g. "assets/{{Color}}.json" for every Color
+      const localTokensText = isObjectRecord(patch.LocalTokens)
+        ? Object.values(patch.LocalTokens).map(String).join(" ")
+        : "";
+      const bindings = enumerateTokenBindings(`${fromFile} ${localTokensText}`, tokens);
+
+      for (const binding of bindings) {
+        const tokenMap = buildIncludeTokenMap(
+          modId,
+          withTokenBinding(tokens, binding),
+          patch.LocalTokens
+        );
+        const variantWhen = tokenBindingToWhen(tokens, binding);
+
+        // Expand what we safely can (DynamicTokens + LocalTokens). This helps
+        // resolve straightforward cases, while still leaving i18n/modid for later.
+        const fromFileExpanded = expandTokensDeep(fromFile, tokenMap);
+        const fromFileHasTokens = hasAnyCpToken(fromFileExpanded);
+
+        // If FromFile still contains {{...}} after expansion, we cannot resolve it
+        // at scan time. Defer/skip to avoid false "missing file" spam.
+        if (fromFileHasTokens) {
+          const key = `${modId}::${fromFileExpanded}`;
+          if (!warnedDeferredIncludes.has(key)) {
+            warnedDeferredIncludes.add(key);
+            dbg(
+              `[InstalledIndex] INCLUDE deferred (unresolved tokens): FromFile='${fromFile}' -> '${fromFileExpanded}'`
+            );
+          }
+          expanded.push(patch);
+          continue;
+        }
+
+        const includeAbs = path.resolve(modDir, fromFileExpanded);
+        const exists = fs.existsSync(includeAbs);
+
+        const resolvedKey = `${modId}::${includeAbs}`;
+        if (!debugResolvedIncludes.has(resolvedKey)) {
+          debugResolvedIncludes.add(resolvedKey);
+          dbg(
+            `[InstalledIndex] INCLUDE resolved: FromFile='${fromFileExpanded}' -> '${includeAbs}' (exists=${exists})`
+          );
+        }
+
+        if (!exists) {
+          const warnKey = `${modId}::${includeAbs}`;
+          if (!warnedMissingIncludes.has(warnKey)) {
+            warnedMissingIncludes.add(warnKey);
+            console.warn(
+              `[InstalledIndex] INCLUDE missing file: '${includeAbs}' (FromFile='${fromFileExpanded}')`
+            );
+          }
+          expanded.push(patch);
+          continue;
+        }
+
+        const includedJson = readJsoncFile(includeAbs);
+        if (!includedJson) {
+          console.warn(`[InstalledIndex] INCLUDE failed to parse: '${includeAbs}'`);
+          expanded.push(patch);
+          continue;
+        }
+
+        const includedExpanded = expandTokensInAny(includedJson, tokenMap);
+
+        if (installedIndexDebugEnabled()) {
+          const expandedTextProbe = JSON.stringify(includedExpanded);
+          const stillHasColorToken = expandedTextProbe.includes("{{Color}}");
+          const stillHasColorTokenLower = expandedTextProbe
+            .toLowerCase()
+            .includes("{{color}}");
+
+          dbg(
+            `[InstalledIndex] INCLUDE expanded: stillHas('{{Color}}')=${stillHasColorToken}, stillHas('{{color}}')=${stillHasColorTokenLower}`
+          );
+        }
+
+        const includedChanges = Array.isArray((includedExpanded as any).Changes)
+          ? (includedExpanded as any).Changes
+          : [];
+
+        dbg(
+          `[InstalledIndex] INCLUDE expanded changes count: ${includedChanges.length}`
+        );
+
+        if (includedChanges.length > 0) {
+          // The child applies only when the Include's conditions, the token values that
+          // selected this file and its own conditions all match; each is kept as its own
+          // block so a key the child tests again doesn't hide the Include's condition
+          const inherited = [
+            ...inheritedWhenBlocks(patch),
+            ...(isObjectRecord(patch.When) ? [patch.When] : []),
+            ...(Object.keys(variantWhen).length > 0 ? [variantWhen] : []),
+          ];
+          for (const child of includedChanges) {
+            if (inherited.length > 0 && child && typeof child === "object") {
+              (child as any)[INHERITED_WHEN_FIELD] = inherited;
+            }
+            expanded.push(child);
+          }
+        } else {
+          expanded.push(includedExpanded);
+        }
+      }
+    }
+  }
+
+  dbg(`[InstalledIndex] expandIncludePatches result: expanded=${expanded.length}`);
+
+  return expanded;
+}
+
+function extractQualifiedIdsFromText(
+  raw: string,
+  modId: string,
+  dynamicTokens?: Map<string, string>
+): string[] {
+  if (typeof raw !== "string" || !raw.trim()) return [];
+
+  let s = raw;
+  s = expandDynamicTokens(s, dynamicTokens);
+  s = s.replace(/\{\{\s*modid\s*\}\}/gi, modId);
+
+  const out: string[] = [];
+  const re = /\(([A-Z]+)\)([A-Za-z0-9._-]+(?::[0-9]+)?)\b/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(s)) !== null) {
+    const prefix = m[1];
+    let inner = m[2];
+    if (!prefix || !inner) continue;
+
+    // Only wallpaper/flooring IDs carry a ":<index>" suffix
+    if (prefix !== "WP" && prefix !== "FL") {
+      inner = inner.replace(/:[0-9]+$/, "");
+    }
+    out.push(`(${prefix})${inner}`);
+  }
+  return out;
+}
+
+function collectQualifiedIdsFromAny(
+  value: any,
+  modId: string,
+  dynamicTokens?: Map<string, string>,
+  into?: Set<string>
+): Set<string> {
+  const set = into ?? new Set<string>();
+
+  if (typeof value === "string") {
+    for (const qid of extractQualifiedIdsFromText(value, modId, dynamicTokens)) {
+      set.add(qid);
+    }
+    return set;
+  }
+
+  if (Array.isArray(value)) {
+    for (const v of value) {
+      collectQualifiedIdsFromAny(v, modId, dynamicTokens, set);
+    }
+    return set;
+  }
+
+  if (value && typeof value === "object") {
+    for (const v of Object.values(value)) {
+      collectQualifiedIdsFromAny(v, modId, dynamicTokens, set);
+    }
+    return set;
+  }
+
+  return set;
+}
+
+function shouldSkipDirectIndexingAsTemplate(filePath: string, json: any): boolean {
+  const base = path.basename(filePath).toLowerCase();
+
+  if (base.includes("template")) {
+    if (json && typeof json === "object" && Array.isArray((json as any).Changes)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Record IDs a mod only references. They're filed under the referencing mod for now;
+ * scanInstalledMods attributes them to their owner when merging, so cached results
+ * don't depend on which other mods are installed.
+ */
+function addReferenceQualifiedIdsToIndex(
+  found: Set<string>,
+  currentModId: string,
+  currentModName: string,
+  baseQualifiedIds: Set<string>,
+  qualifiedIdToInfo: Map<string, InstalledItemInfo>
+): void {
+  for (const qid of found) {
+    if (baseQualifiedIds.has(qid)) continue;
+    if (qualifiedIdToInfo.has(qid)) continue;
+
+    const m = /^\(([A-Z]+)\)(.+)$/.exec(qid);
+    if (!m) continue;
+
+    const prefix = m[1];
+    const inner = m[2];
+
+    if (!PREFIX_TO_CATEGORY_KEY[prefix]) continue;
+
+    qualifiedIdToInfo.set(qid, {
+      modId: currentModId,
+      modName: currentModName,
+      name: inner,
+      referenceOnly: true,
+    });
+  }
+}
+
+/**
+ * Index a Data/AdditionalWallpaperFlooring patch: every entry expands into
+ * Count items named <Id>:<index> under (FL) or (WP).
+ */
+function indexWallpaperFlooringEntries(
+  entries: any,
+  modId: string,
+  modName: string,
+  baseQualifiedIds: Set<string>,
+  qualifiedIdToInfo: Map<string, InstalledItemInfo>,
+  dynamicTokens?: Map<string, string>,
+  conditions?: ItemCondition[]
+): void {
+  if (!entries || typeof entries !== "object") return;
+
+  for (const [key, entryData] of Object.entries<any>(entries)) {
+    if (!isObjectRecord(entryData)) continue;
+
+    const rawId = typeof entryData.Id === "string" && entryData.Id.trim() ? entryData.Id : key;
+    const setId = expandModTokens(rawId, modId, dynamicTokens);
+    if (!setId || hasAnyCpToken(setId)) continue;
+
+    const isFlooring = entryData.IsFlooring === true;
+    const prefix = isFlooring ? "FL" : "WP";
+    const kind = isFlooring ? "Flooring" : "Wallpaper";
+
+    const count = Math.min(
+      Math.max(toFiniteNumber(entryData.Count) ?? 1, 0),
+      MAX_WALLPAPER_FLOORING_COUNT
+    );
+
+    const texture =
+      typeof entryData.Texture === "string" && entryData.Texture.trim()
+        ? expandModTokens(entryData.Texture, modId, dynamicTokens)
+        : undefined;
+
+    for (let i = 0; i < count; i++) {
+      const innerId = `${setId}:${i}`;
+      const qualifiedId = `(${prefix})${innerId}`;
+      if (baseQualifiedIds.has(qualifiedId) || !isUnclaimed(qualifiedId, qualifiedIdToInfo)) continue;
+
+      const info: InstalledItemInfo = {
+        modId,
+        modName,
+        name: `${kind} ${innerId}`,
+        spriteIndex: i,
+      };
+      if (texture) info.texture = texture;
+      if (conditions) info.conditions = conditions;
+
+      qualifiedIdToInfo.set(qualifiedId, info);
+    }
+  }
+}
+
+/**
+ * Note an edit to an entry this mod doesn't add itself (edits to its own items are
+ * part of the item).
+ */
+function recordPatchEdit(
+  qualifiedId: string,
+  modId: string,
+  qualifiedIdToInfo: Map<string, InstalledItemInfo>,
+  patchLog: ModPatchLog
+): void {
+  if (hasAnyCpToken(qualifiedId)) return;
+  const own = qualifiedIdToInfo.get(qualifiedId);
+  if (own?.modId === modId && !own.referenceOnly) return;
+  patchLog.edited.add(qualifiedId);
+}
+
+/**
+ * Record the NPCs/locations/buildings/farm animals an EditData patch adds (one per
+ * reachable token value in the key). Deletions and edits of existing entries add nothing.
+ */
+function collectEntityEntries(
+  patch: any,
+  target: { kind: EntityKind; nameField: string },
+  modId: string,
+  modName: string,
+  modI18n: Map<string, string>,
+  modTokens: ModTokens,
+  entities: Map<string, InstalledEntityInfo>
+): void {
+  if (!isObjectRecord(patch.Entries)) return;
+
+  for (const [key, value] of Object.entries(patch.Entries)) {
+    if (!key.trim() || value === null) continue;
+
+    for (const binding of enumerateTokenBindings(key, modTokens)) {
+      const dynamicTokens = withTokenBinding(modTokens, binding);
+      const id = expandModTokens(key, modId, dynamicTokens);
+      if (!id || hasAnyCpToken(id)) continue;
+
+      const entityKey = `${target.kind}:${id.toLowerCase()}`;
+      if (entities.has(entityKey)) continue;
+
+      const rawName = isObjectRecord(value) ? value[target.nameField] : undefined;
+      const name =
+        typeof rawName === "string" && rawName.trim()
+          ? makeNameReadable(rawName, modI18n, modId, dynamicTokens)
+          : id;
+      entities.set(entityKey, { kind: target.kind, id, name: name || id, modId, modName });
+    }
+  }
+}
+
+/**
+ * Record the "<Target>::<key>" of every entry an EditData patch adds or replaces
+ * (one per reachable token value in the key). Deletions don't count.
+ */
+function recordEntryKeys(patch: any, modId: string, modTokens: ModTokens, patchLog: ModPatchLog): void {
+  if (!isObjectRecord(patch.Entries) || patch.TargetField) return;
+
+  for (const [key, value] of Object.entries(patch.Entries)) {
+    if (!key.trim() || value === null) continue;
+
+    for (const binding of enumerateTokenBindings(key, modTokens)) {
+      const id = expandModTokens(key, modId, withTokenBinding(modTokens, binding));
+      if (id && !hasAnyCpToken(id)) patchLog.entryKeys.add(`${patch.Target}::${id}`);
+    }
+  }
+}
+
+function scanContentJson(
+  filePath: string,
+  modDir: string,
+  modId: string,
+  modName: string,
+  modI18n: Map<string, string>,
+  baseQualifiedIds: Set<string>,
+  qualifiedIdToInfo: Map<string, InstalledItemInfo>,
+  modTokens: ModTokens,
+  patchLog: ModPatchLog,
+  entities: Map<string, InstalledEntityInfo>,
+  textureLoads?: Map<string, string>
+): void {
+  let text: string;
+  try {
+    text = readTextFile(filePath);
+  } catch {
+    return;
+  }
+
+  const errors: ParseError[] = [];
+  const json = parse(text, errors, { allowTrailingComma: true }) as any;
+  if (!json || typeof json !== "object") return;
+
+  const rel = path.relative(modDir, filePath).replace(/\\/g, "/");
+  const hasChanges = Array.isArray((json as any).Changes);
+
+  const hasInclude =
+    hasChanges &&
+    (json as any).Changes.some((p: any) => {
+      if (!p || typeof p !== "object") return false;
+      if (p.Action !== "Include") return false;
+      // FromFile can be string or array; allow both
+      return typeof p.FromFile === "string" || Array.isArray(p.FromFile);
+    });
+
+  if (installedIndexDebugEnabled() && (hasInclude || rel.toLowerCase().includes("data/objects."))) {
+    dbg(
+      `[InstalledIndex] SCAN file='${rel}' modId='${modId}' hasChanges=${hasChanges} changesCount=${
+        hasChanges ? (json as any).Changes.length : 0
+      } hasInclude=${hasInclude}`
+    );
+  }
+
+  if (shouldSkipDirectIndexingAsTemplate(filePath, json)) {
+    if (installedIndexDebugEnabled() && (hasInclude || rel.toLowerCase().includes("template"))) {
+      dbg(`[InstalledIndex] SKIP template direct indexing: '${rel}'`);
+    }
+    return;
+  }
+
+  // Token values under the default config. DynamicTokens only count in the mod's
+  // content.json, which loadModTokens already read.
+  const dynamicTokens = modTokens.defaults;
+
+  // Content Patcher's CustomLocations field adds locations outside Changes
+  if (Array.isArray(json.CustomLocations)) {
+    for (const location of json.CustomLocations) {
+      if (typeof location?.Name !== "string") continue;
+      const id = expandModTokens(location.Name, modId, dynamicTokens);
+      const entityKey = `location:${id.toLowerCase()}`;
+      if (!id || hasAnyCpToken(id) || entities.has(entityKey)) continue;
+      entities.set(entityKey, { kind: "location", id, name: id, modId, modName });
+    }
+  }
+
+  const changesRaw = (json as any).Changes;
+  if (!Array.isArray(changesRaw)) return;
+
+  const changes = expandIncludePatches(changesRaw, modDir, modId, modTokens)
+    .flatMap((patch) =>
+      patch && typeof patch === "object" ? expandJsonLoadPatches(patch, modDir, modId, modTokens) : []
+    )
+    .flatMap((patch) => splitPatchTargets(patch, modId, dynamicTokens));
+
+  if (installedIndexDebugEnabled() && (hasInclude || rel.toLowerCase().includes("data/objects."))) {
+    const includeCount = changesRaw.filter((p: any) => p?.Action === "Include").length;
+    dbg(
+      `[InstalledIndex] SCAN expanded changes: raw=${changesRaw.length} includes=${includeCount} expanded=${changes.length}`
+    );
+  }
+
+  for (const patch of changes) {
+    if (!patch || typeof patch !== "object") continue;
+
+    if (patch.Action === "Load" && textureLoads) {
+      collectTextureLoads(patch, modDir, modId, dynamicTokens, textureLoads);
+      continue;
+    }
+
+    if (
+      patch.Action === "EditData" &&
+      typeof patch.Target === "string" &&
+      ENTITY_TARGETS[patch.Target] &&
+      !patch.TargetField
+    ) {
+      const target = ENTITY_TARGETS[patch.Target];
+      collectEntityEntries(patch, target, modId, modName, modI18n, modTokens, entities);
+    }
+
+    if (patch.Action === "EditData" && typeof patch.Target === "string" && !hasAnyCpToken(patch.Target)) {
+      recordEntryKeys(patch, modId, modTokens, patchLog);
+    }
+
+    // Reference indexing
+    if (
+      patch.Action === "EditData" &&
+      typeof patch.Target === "string" &&
+      REFERENCE_TARGETS.has(patch.Target)
+    ) {
+      const entries = (patch as any).Entries;
+
+      if (entries && typeof entries === "object") {
+        const found = collectQualifiedIdsFromAny(entries, modId, dynamicTokens);
+        addReferenceQualifiedIdsToIndex(
+          found,
+          modId,
+          modName,
+          baseQualifiedIds,
+          qualifiedIdToInfo
+        );
+      } else {
+        const found = collectQualifiedIdsFromAny(patch, modId, dynamicTokens);
+        addReferenceQualifiedIdsToIndex(
+          found,
+          modId,
+          modName,
+          baseQualifiedIds,
+          qualifiedIdToInfo
+        );
+      }
+      continue;
+    }
+
+    if (patch.Action !== "EditData") continue;
+    if (typeof patch.Target !== "string") continue;
+
+    const conditions = readPatchConditions(patch, modTokens, modId);
+
+    if (patch.Target === WALLPAPER_FLOORING_TARGET && !patch.TargetField) {
+      indexWallpaperFlooringEntries(
+        (patch as any).Entries,
+        modId,
+        modName,
+        baseQualifiedIds,
+        qualifiedIdToInfo,
+        dynamicTokens,
+        conditions
+      );
+      continue;
+    }
+
+    const targetInfo = TARGET_TO_CATEGORY[patch.Target];
+    if (!targetInfo) continue;
+
+    const toQualifiedId = (rawKey: string) =>
+      `(${targetInfo.prefix})${expandModTokens(rawKey, modId, dynamicTokens)}`;
+
+    // TargetField edits a field inside one existing entry: TargetField[0] is its key
+    if (Array.isArray(patch.TargetField) && patch.TargetField.length > 0) {
+      const rawKey = String(patch.TargetField[0] ?? "").trim();
+      if (rawKey) recordPatchEdit(toQualifiedId(rawKey), modId, qualifiedIdToInfo, patchLog);
+      continue;
+    }
+
+    const entries = isObjectRecord(patch.Entries) ? patch.Entries : {};
+
+    for (const key of Object.keys(entries)) {
+      const rawInnerId = key.trim();
+      if (!rawInnerId) continue;
+
+      if (rawInnerId === "When") {
+        continue;
+      }
+
+      const entryData = (entries as any)[key];
+
+      // null deletes the entry
+      if (entryData === null) {
+        const qualifiedId = toQualifiedId(rawInnerId);
+        const own = qualifiedIdToInfo.get(qualifiedId);
+        if (own && own.modId === modId && !own.referenceOnly && !conditions) {
+          qualifiedIdToInfo.delete(qualifiedId);
+        } else {
+          patchLog.removed.add(qualifiedId);
+        }
+        continue;
+      }
+
+      for (const binding of enumerateTokenBindings(rawInnerId, modTokens)) {
+        // Keys like "{{ModId}}_{{Color}}Dye" are indexed once per reachable token value
+        const dynamicTokens = withTokenBinding(modTokens, binding);
+        const entryConditions =
+          binding.size > 0
+            ? readPatchConditions(patch, modTokens, modId, tokenBindingToWhen(modTokens, binding))
+            : conditions;
+
+        let innerId = expandDynamicTokens(rawInnerId, dynamicTokens);
+        innerId = innerId.replace(/\{\{\s*modid\s*\}\}/gi, modId);
+
+        const qualifiedId = `(${targetInfo.prefix})${innerId}`;
+
+        if (qualifiedId.includes("{{") || qualifiedId.includes("}}")) {
+          dbg(
+            `[InstalledIndex] INDEX token still present: ${qualifiedId} (from file ${path
+              .relative(modDir, filePath)
+              .replace(/\\/g, "/")})`
+          );
+        }
+
+        // Replacing a vanilla/custom entry edits it rather than adding an item
+        if (baseQualifiedIds.has(qualifiedId)) {
+          patchLog.edited.add(qualifiedId);
+          continue;
+        }
+
+        let displayName: string;
+        if (patch.Target === "Data/Furniture" && typeof entryData === "string") {
+          displayName = resolveFurnitureInlineDisplayName(
+            entryData,
+            innerId,
+            modI18n,
+            modId,
+            dynamicTokens
+          );
+        } else if (patch.Target === "Data/Boots" && typeof entryData === "string") {
+          displayName = resolveBootsInlineDisplayName(
+            entryData,
+            innerId,
+            modI18n,
+            modId,
+            dynamicTokens
+          );
+        } else if (patch.Target === "Data/Hats" && typeof entryData === "string") {
+          displayName = resolveHatsInlineDisplayName(
+            entryData,
+            innerId,
+            modI18n,
+            modId,
+            dynamicTokens
+          );
+        } else {
+          displayName = resolveItemDisplayName(
+            entryData,
+            innerId,
+            modI18n,
+            modId,
+            dynamicTokens
+          );
+        }
+
+        const metadata = readItemMetadata(
+          patch.Target,
+          entryData,
+          modI18n,
+          modId,
+          dynamicTokens
+        );
+
+        if (entryConditions) metadata.conditions = entryConditions;
+
+        if (isUnclaimed(qualifiedId, qualifiedIdToInfo)) {
+          qualifiedIdToInfo.set(qualifiedId, {
+            modId,
+            modName,
+            name: displayName,
+            ...metadata,
+          });
+        }
+
+        // Data/Objects alias indexing when entryData.Name differs from key
+        if (
+          patch.Target === "Data/Objects" &&
+          isObjectRecord(entryData) &&
+          typeof (entryData as any).Name === "string" &&
+          (entryData as any).Name.trim()
+        ) {
+          let nameInnerId = (entryData as any).Name.trim();
+          nameInnerId = expandDynamicTokens(nameInnerId, dynamicTokens);
+          nameInnerId = nameInnerId.replace(/\{\{\s*modid\s*\}\}/gi, modId);
+
+          if (nameInnerId && nameInnerId !== innerId) {
+            const aliasQualifiedId = `(${targetInfo.prefix})${nameInnerId}`;
+            if (!baseQualifiedIds.has(aliasQualifiedId)) {
+              const aliasDisplayName = resolveItemDisplayName(
+                entryData,
+                nameInnerId,
+                modI18n,
+                modId,
+                dynamicTokens
+              );
+
+              if (isUnclaimed(aliasQualifiedId, qualifiedIdToInfo)) {
+                qualifiedIdToInfo.set(aliasQualifiedId, {
+                  modId,
+                  modName,
+                  name: aliasDisplayName,
+                  ...metadata,
+                });
+              }
+            }
+          }
+        }
+
+        // Tool upgrades: ConventionalUpgradeFrom / UpgradeFrom[].RequireToolId / TradeItemId
+        // reference other (T)/(O) items, possibly from other mods.
+        if (patch.Target === "Data/Tools" && isObjectRecord(entryData)) {
+          const upgradeRefs = collectQualifiedIdsFromAny(
+            [entryData.ConventionalUpgradeFrom, entryData.UpgradeFrom],
+            modId,
+            dynamicTokens
+          );
+          addReferenceQualifiedIdsToIndex(
+            upgradeRefs,
+            modId,
+            modName,
+            baseQualifiedIds,
+            qualifiedIdToInfo
+          );
+        }
+      }
+    }
+
+    // Fields edits individual fields of existing entries (applied after Entries)
+    if (isObjectRecord(patch.Fields)) {
+      for (const [rawKey, fieldEdits] of Object.entries<any>(patch.Fields)) {
+        if (!rawKey.trim()) continue;
+        const qualifiedId = toQualifiedId(rawKey);
+        const own = qualifiedIdToInfo.get(qualifiedId);
+
+        if (own && own.modId === modId && !own.referenceOnly) {
+          // Our own item: keep its metadata current
+          if (isObjectRecord(fieldEdits)) {
+            const edited = readItemMetadata(patch.Target, fieldEdits, modI18n, modId, dynamicTokens);
+            for (const field of Object.keys(edited) as (keyof InstalledItemMetadata)[]) {
+              copyDefinedField(own, edited, field);
+            }
+            if (fieldEdits.DisplayName !== undefined) {
+              own.name = resolveItemDisplayName(
+                fieldEdits,
+                qualifiedId.replace(/^\([A-Za-z]+\)/, ""),
+                modI18n,
+                modId,
+                dynamicTokens
+              );
+            }
+          }
+        } else {
+          recordPatchEdit(qualifiedId, modId, qualifiedIdToInfo, patchLog);
+        }
+      }
+    }
+
+    // MoveEntries only reorders entries; it doesn't add, remove or change items.
+  }
+}
+
+function scanModFolder(
+  modDir: string,
+  baseQualifiedIds: Set<string>,
+  qualifiedIdToInfo: Map<string, InstalledItemInfo>,
+  patchLog: ModPatchLog,
+  entities: Map<string, InstalledEntityInfo>
+): void {
+  const folderName = path.basename(modDir);
+
+  if (folderName.startsWith(".")) {
+    console.log(
+      `[Stardew Modding Schema] Skipping dot folder as mod: ${folderName}`
+    );
+    return;
+  }
+
+  const identity = readManifestIdentity(modDir);
+  const modId = identity.modId;
+  const modName = identity.modName;
+
+  dbg(
+    `[Stardew Modding Schema] Mod folder '${folderName}' → modId='${modId}', modName='${modName}'`
+  );
+
+  const modI18n = loadModI18n(modDir);
+  const modTokens = loadModTokens(modDir);
+  const textureLoads = new Map<string, string>();
+
+  const scanFile = (full: string) =>
+    scanContentJson(
+      full,
+      modDir,
+      modId,
+      modName,
+      modI18n,
+      baseQualifiedIds,
+      qualifiedIdToInfo,
+      modTokens,
+      patchLog,
+      entities,
+      textureLoads
+    );
+
+  // content.json first: items reached through its Includes carry the Include's
+  // conditions and token values, so they win over a direct scan of the same file.
+  const rootContent = path.join(modDir, "content.json");
+  if (fs.existsSync(rootContent)) scanFile(rootContent);
+
+  function walk(dir: string) {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const full = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        if (entry.name.startsWith(".")) continue;
+        walk(full);
+        continue;
+      }
+
+      if (entry.isFile() && full !== rootContent) {
+        const lower = entry.name.toLowerCase();
+        if (lower.endsWith(".json") || lower.endsWith(".jsonc")) {
+          scanFile(full);
+        }
+      }
+    }
+  }
+
+  walk(modDir);
+
+  // Json Assets, Furniture Framework, ... packs (see packScanners.ts)
+  const packContext: PackScanContext = {
+    modDir,
+    modId,
+    contentPackFor: identity.contentPackFor,
+    readName: (raw) => makeNameReadable(raw, modI18n, modId),
+  };
+  for (const scanner of PACK_SCANNERS) {
+    const items = scanner.scan(packContext);
+    if (items.length > 0) {
+      dbg(`[InstalledIndex] ${scanner.name}: ${items.length} item(s) in '${folderName}'`);
+    }
+
+    for (const { qualifiedId, ...item } of items) {
+      const m = /^\(([A-Z]+)\)(.+)$/.exec(qualifiedId);
+      if (m && PREFIX_TO_TARGET[m[1]]) patchLog.entryKeys.add(`${PREFIX_TO_TARGET[m[1]]}::${m[2]}`);
+
+      if (baseQualifiedIds.has(qualifiedId) || !isUnclaimed(qualifiedId, qualifiedIdToInfo)) continue;
+      qualifiedIdToInfo.set(qualifiedId, { ...item, modId, modName });
+    }
+  }
+
+  // Resolve Texture asset names to the PNGs this mod Loads (for sprite previews)
+  if (textureLoads.size > 0) {
+    for (const info of qualifiedIdToInfo.values()) {
+      if (info.modId !== modId || !info.texture || info.textureFile) continue;
+      const file = textureLoads.get(normalizeAssetName(info.texture));
+      if (file) {
+        info.textureFile = file;
+      }
+    }
+  }
+}
+
+function findModFolders(modsRoot: string): string[] {
+  const results: string[] = [];
+
+  function walk(dir: string, depth: number) {
+    if (depth > 6) return;
+
+    const manifest = path.join(dir, "manifest.json");
+    if (fs.existsSync(manifest)) {
+      results.push(dir);
+      return;
+    }
+
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+      if (entry.name.startsWith(".") || entry.name === "node_modules") continue;
+
+      const childDir = path.join(dir, entry.name);
+      walk(childDir, depth + 1);
+    }
+  }
+
+  try {
+    if (!fs.existsSync(modsRoot) || !fs.statSync(modsRoot).isDirectory()) {
+      return results;
+    }
+  } catch {
+    return results;
+  }
+
+  walk(modsRoot, 0);
+  return results;
+}
+
+/**
+ * Cache input for files built from these roots (order matters: it decides which
+ * copy of a duplicated mod is indexed).
+ */
+export function modsRootsKey(modsRoots: string[]): string {
+  return modsRoots.join("\n");
+}
+
+/**
+ * Mod folders of every root, in root order. A folder reached from two overlapping
+ * roots is listed once; a UniqueID found in several roots keeps only the copy in
+ * the earliest root (or the first folder found within one root).
+ */
+function findModFoldersInRoots(modsRoots: string[]): string[] {
+  const folders = new Set<string>();
+  const owners = new Map<string, string>(); // lowercased UniqueID -> chosen folder
+  const results: string[] = [];
+
+  for (const root of modsRoots) {
+    for (const dir of findModFolders(root)) {
+      if (folders.has(dir)) continue;
+      folders.add(dir);
+
+      const modId = readManifestIdentity(dir).modId.toLowerCase();
+      const chosen = owners.get(modId);
+      if (chosen) {
+        console.log(
+          `[Stardew Modding Schema] Skipping '${dir}': same UniqueID as '${chosen}', which takes precedence.`
+        );
+        continue;
+      }
+      owners.set(modId, dir);
+      results.push(dir);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Fingerprint of everything scanModFolder reads: the manifest version plus the
+ * relative path, size and mtime of every .json/.jsonc file and of the sprites pack
+ * scanners check for (dot folders skipped, as in the scan). Stat-only, so it's cheap
+ * compared to parsing.
+ */
+function fingerprintModFolder(modDir: string, version: string | undefined): string {
+  const lines: string[] = [];
+
+  function walk(dir: string) {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const full = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        if (entry.name.startsWith(".")) continue;
+        walk(full);
+        continue;
+      }
+
+      const lower = entry.name.toLowerCase();
+      if (
+        entry.isFile() &&
+        (lower.endsWith(".json") || lower.endsWith(".jsonc") || PACK_SPRITE_FILES.has(lower))
+      ) {
+        try {
+          const stat = fs.statSync(full);
+          lines.push(`${path.relative(modDir, full)}|${stat.size}|${stat.mtimeMs}`);
+        } catch {
+          // vanished mid-walk; the next rebuild picks it up
+        }
+      }
+    }
+  }
+
+  walk(modDir);
+  lines.sort();
+
+  return crypto
+    .createHash("sha1")
+    .update(`version:${version ?? ""}\n${lines.join("\n")}`)
+    .digest("hex");
+}
+
+function hashStrings(values: Iterable<string>): string {
+  return crypto
+    .createHash("sha1")
+    .update(Array.from(values).sort().join("\n"))
+    .digest("hex");
+}
+
+export interface InstalledScanRequest {
+  modsRoots: string[]; // highest precedence first
+  baseQualifiedIds: string[]; // vanilla + custom IDs, never indexed as mod items
+  prevModCache?: {
+    meta?: Record<string, unknown>;
+    mods?: Record<string, ModScanCacheEntry>;
+  };
+}
+
+export interface InstalledScanResult {
+  index: Record<string, any>; // installed-mod-ids.json content (meta is added on write)
+  modCache: { mods: Record<string, ModScanCacheEntry> };
+  cacheInputs: Record<string, string>; // stored in the mod cache meta
+  modCount: number;
+  rescanned: number;
+  removed: number;
+}
+
+/**
+ * Messages posted by the worker to the extension host.
+ */
+export type ScannerMessage =
+  | { type: "modsFound"; count: number }
+  | { type: "progress"; processed: number; total: number; modName: string }
+  | { type: "done"; result: InstalledScanResult }
+  | { type: "failed"; error: string };
+
+function addPatchingMod(
+  target: { editedBy?: string[]; removedBy?: string[] },
+  field: "editedBy" | "removedBy",
+  modId: string
+): void {
+  const list = (target[field] ??= []);
+  if (!list.includes(modId)) list.push(modId);
+}
+
+/**
+ * Previous per-mod results, or {} when they were built against other base IDs.
+ */
+function usablePrevModCache(
+  prev: InstalledScanRequest["prevModCache"],
+  cacheInputs: Record<string, string>
+): Record<string, ModScanCacheEntry> {
+  if (!prev || !isObjectRecord(prev.mods)) return {};
+
+  for (const [key, value] of Object.entries(cacheInputs)) {
+    if (prev.meta?.[key] !== value) {
+      console.log(
+        `[Stardew Modding Schema] Per-mod scan cache not used (${key} changed); scanning every mod.`
+      );
+      return {};
+    }
+  }
+
+  return prev.mods;
+}
+
+/**
+ * The `entities` section of an index: one array per kind, sorted by ID.
+ */
+export function buildEntitySections(
+  entities: Iterable<InstalledEntityInfo>
+): Record<string, { id: string; name: string; modId: string; modName: string }[]> {
+  const sections: Record<string, { id: string; name: string; modId: string; modName: string }[]> = {};
+  for (const { kind, ...entity } of entities) {
+    (sections[ENTITY_KINDS[kind].section] ??= []).push(entity);
+  }
+  for (const list of Object.values(sections)) {
+    list.sort((a, b) => a.id.localeCompare(b.id));
+  }
+  return sections;
+}
+
+/**
+ * The stardew-ids-style part of an index: categoryTypes plus one sorted array of
+ * items per category.
+ */
+export function buildItemSections(
+  qualifiedIdToInfo: Map<string, InstalledItemInfo>
+): Record<string, any> {
+  const categories: Record<string, any[]> = {
+    objects: [],
+    bigCraftables: [],
+    boots: [],
+    flooring: [],
+    furniture: [],
+    hats: [],
+    mannequins: [],
+    pants: [],
+    shirts: [],
+    tools: [],
+    trinkets: [],
+    wallpapers: [],
+    weapons: [],
+  };
+
+  for (const [qualifiedId, info] of qualifiedIdToInfo.entries()) {
+    const m = /^\(([A-Z]+)\)(.+)$/.exec(qualifiedId);
+    if (!m) continue;
+    const prefix = m[1];
+    const inner = m[2];
+
+    const entry: Record<string, any> = {
+      id: inner,
+      name: info.name || inner,
+      qualifiedId,
+      modId: info.modId,
+      modName: info.modName,
+    };
+
+    if (info.internalName) entry.internalName = info.internalName;
+    if (info.texture) entry.texture = info.texture;
+    if (info.spriteIndex !== undefined) entry.spriteIndex = info.spriteIndex;
+    if (info.textureFile) entry.textureFile = info.textureFile;
+    if (info.price !== undefined) entry.price = info.price;
+    if (info.itemCategory !== undefined) entry.itemCategory = info.itemCategory;
+    if (info.edibility !== undefined) entry.edibility = info.edibility;
+    if (info.type) entry.type = info.type;
+    if (info.contextTags?.length) entry.contextTags = info.contextTags;
+    if (info.description) entry.description = info.description;
+    if (info.nameKey) entry.nameKey = info.nameKey;
+    if (info.conditions?.length) entry.conditions = info.conditions;
+    if (info.editedBy?.length) entry.editedBy = info.editedBy;
+    if (info.removedBy?.length) entry.removedBy = info.removedBy;
+    if (info.addedBy?.length) entry.addedBy = info.addedBy;
+    if (info.referenceOnly) entry.referenceOnly = true;
+
+    const categoryKey = PREFIX_TO_CATEGORY_KEY[prefix] ?? "objects";
+    categories[categoryKey].push(entry);
+  }
+
+  for (const arr of Object.values(categories)) {
+    arr.sort((a, b) => String(a.qualifiedId).localeCompare(String(b.qualifiedId)));
+  }
+
+  return {
+    categoryTypes: {
+      objects: "O",
+      bigCraftables: "BC",
+      boots: "B",
+      flooring: "FL",
+      furniture: "F",
+      hats: "H",
+      mannequins: "M",
+      pants: "P",
+      shirts: "S",
+      tools: "T",
+      trinkets: "TR",
+      wallpapers: "WP",
+      weapons: "W",
+    },
+    ...categories,
+  };
+}
+
+/**
+ * Find mod folders under the mods roots, rescan those whose fingerprint changed, reuse the
+ * rest from the previous cache, and build the installed index.
+ */
+export function scanInstalledMods(
+  request: InstalledScanRequest,
+  report: (message: ScannerMessage) => void
+): InstalledScanResult {
+  // Clear per-run caches to avoid memory growth and to keep logging sane
+  resetIncludeLogCaches();
+
+  const { modsRoots } = request;
+  const baseQualifiedIds = new Set(request.baseQualifiedIds);
+  const qualifiedIdToInfo = new Map<string, InstalledItemInfo>();
+
+  const modDirs = findModFoldersInRoots(modsRoots);
+  report({ type: "modsFound", count: modDirs.length });
+
+  const knownModIds = buildKnownModIds(modDirs);
+  dbg(`[Stardew Modding Schema] Known mods loaded: ${knownModIds.size}`);
+
+  // Every mod's result depends on the base IDs (skipped as vanilla); if they change, the
+  // whole cache is rebuilt. Other mods only matter for referenced IDs, whose owners are
+  // resolved below, after the cached and rescanned results are merged.
+  const cacheInputs = {
+    baseIdsHash: hashStrings(baseQualifiedIds),
+  };
+  const prevModCache = usablePrevModCache(request.prevModCache, cacheInputs);
+  const nextModCache: Record<string, ModScanCacheEntry> = {};
+  const patchLogs: { modId: string; log: ModPatchLog }[] = [];
+  const entities = new Map<string, InstalledEntityInfo>(); // "<kind>:<lowercased id>" -> first mod's
+  const references: { qualifiedId: string; info: InstalledItemInfo; referrer: ModIdentity }[] = [];
+
+  let processed = 0;
+  let rescanned = 0;
+  for (const modDir of modDirs) {
+    const identity = readManifestIdentity(modDir);
+    const fingerprint = fingerprintModFolder(modDir, identity.version);
+    const cached = prevModCache[modDir];
+
+    let modItems: Map<string, InstalledItemInfo>;
+    let patchLog: ModPatchLog;
+    let modEntities: Map<string, InstalledEntityInfo>;
+    if (cached && cached.fingerprint === fingerprint && isObjectRecord(cached.items)) {
+      modItems = new Map(Object.entries(cached.items));
+      patchLog = {
+        edited: new Set(cached.edited ?? []),
+        removed: new Set(cached.removed ?? []),
+        entryKeys: new Set(cached.entryKeys ?? []),
+      };
+      modEntities = new Map(
+        (cached.entities ?? []).map((e) => [`${e.kind}:${e.id.toLowerCase()}`, e] as const)
+      );
+    } else {
+      modItems = new Map();
+      patchLog = { edited: new Set(), removed: new Set(), entryKeys: new Set() };
+      modEntities = new Map();
+      scanModFolder(modDir, baseQualifiedIds, modItems, patchLog, modEntities);
+      rescanned++;
+    }
+
+    const cacheEntry: ModScanCacheEntry = { fingerprint, items: Object.fromEntries(modItems) };
+    if (patchLog.edited.size > 0) cacheEntry.edited = Array.from(patchLog.edited).sort();
+    if (patchLog.removed.size > 0) cacheEntry.removed = Array.from(patchLog.removed).sort();
+    if (patchLog.entryKeys.size > 0) cacheEntry.entryKeys = Array.from(patchLog.entryKeys).sort();
+    if (modEntities.size > 0) cacheEntry.entities = Array.from(modEntities.values());
+    nextModCache[modDir] = cacheEntry;
+    patchLogs.push({ modId: identity.modId, log: patchLog });
+
+    // Merge in folder order; the first mod to add an ID keeps it (as in a single shared scan).
+    // Later mods adding it again show up in addedBy. Copies, so the cache stays clean.
+    // References wait until every mod's definitions are in.
+    for (const [qualifiedId, info] of modItems) {
+      if (info.referenceOnly) {
+        references.push({ qualifiedId, info, referrer: identity });
+      } else if (!qualifiedIdToInfo.has(qualifiedId)) {
+        qualifiedIdToInfo.set(qualifiedId, { ...info });
+      }
+    }
+    for (const [key, entity] of modEntities) {
+      if (!entities.has(key)) entities.set(key, entity);
+    }
+    processed++;
+
+    report({ type: "progress", processed, total: modDirs.length, modName: identity.modName });
+  }
+
+  // IDs only referenced: the mod that defines them owns them; otherwise they stay
+  // reference-only (never warned about) and go to a missing dependency or the referrer
+  for (const { qualifiedId, info, referrer } of references) {
+    if (qualifiedIdToInfo.has(qualifiedId)) continue;
+    const inner = qualifiedId.replace(/^\([A-Z]+\)/, "");
+    qualifiedIdToInfo.set(qualifiedId, { ...info, ...resolveReferenceOwner(inner, referrer, knownModIds) });
+  }
+
+  // Edits and deletions of items a mod doesn't add: installed items carry them directly,
+  // vanilla/custom ones go to the "patches" section
+  const basePatches: Record<string, { editedBy?: string[]; removedBy?: string[] }> = {};
+  for (const { modId, log } of patchLogs) {
+    const apply = (qualifiedId: string, field: "editedBy" | "removedBy") => {
+      const info = qualifiedIdToInfo.get(qualifiedId);
+      if (info) {
+        if (info.modId !== modId || field === "removedBy") addPatchingMod(info, field, modId);
+      } else if (baseQualifiedIds.has(qualifiedId)) {
+        addPatchingMod((basePatches[qualifiedId] ??= {}), field, modId);
+      }
+    };
+    log.edited.forEach((qualifiedId) => apply(qualifiedId, "editedBy"));
+    log.removed.forEach((qualifiedId) => apply(qualifiedId, "removedBy"));
+  }
+
+  // Entries written by more than one mod; items also list every mod that adds them
+  const entryKeyMods = new Map<string, string[]>();
+  for (const { modId, log } of patchLogs) {
+    for (const entryKey of log.entryKeys) {
+      const mods = entryKeyMods.get(entryKey) ?? [];
+      if (!mods.includes(modId)) mods.push(modId);
+      entryKeyMods.set(entryKey, mods);
+    }
+  }
+
+  const collisions: DefinitionCollision[] = [];
+  for (const [entryKey, mods] of entryKeyMods) {
+    if (mods.length < 2) continue;
+    const separator = entryKey.indexOf("::");
+    const target = entryKey.slice(0, separator);
+    const key = entryKey.slice(separator + 2);
+    collisions.push({ target, key, mods });
+
+    const itemTarget = TARGET_TO_CATEGORY[target];
+    const info = itemTarget && qualifiedIdToInfo.get(`(${itemTarget.prefix})${key}`);
+    if (info) info.addedBy = mods;
+  }
+  collisions.sort((a, b) => a.target.localeCompare(b.target) || a.key.localeCompare(b.key));
+
+  const removed = Object.keys(prevModCache).filter((dir) => !(dir in nextModCache)).length;
+  console.log(
+    `[Stardew Modding Schema] Scanned ${rescanned} of ${modDirs.length} mod folders (${
+      modDirs.length - rescanned
+    } unchanged, ${removed} removed).`
+  );
+
+  // Every scanned mod: folders so names can be localized from i18n/<locale>.json, and
+  // versions so the rebuild diff can tell which mods were added, removed or updated
+  const mods: Record<string, { name: string; folder: string; version?: string }> = {};
+  for (const modDir of modDirs) {
+    const identity = readManifestIdentity(modDir);
+    const modId = identity.modId?.trim();
+    if (!modId || mods[modId]) continue;
+    mods[modId] = { name: identity.modName || modId, folder: modDir };
+    if (identity.version) mods[modId].version = identity.version;
+  }
+
+  const out = {
+    ...buildItemSections(qualifiedIdToInfo),
+    mods,
+    patches: basePatches,
+    entities: buildEntitySections(entities.values()),
+    collisions,
+  };
+
+  return {
+    index: out,
+    modCache: { mods: nextModCache },
+    cacheInputs,
+    modCount: modDirs.length,
+    rescanned,
+    removed,
+  };
+}
+
+/**
+ * A live workspace scan posted to workspaceScannerWorker. Base IDs are only sent when
+ * they changed; the worker keeps the last ones.
+ */
+export interface WorkspaceScanRequest {
+  id: number;
+  modDir: string;
+  openDocuments: [string, string][]; // file path -> unsaved editor text
+  baseQualifiedIds?: string[];
+}
+
+/**
+ * What one workspace mod adds: its items (by qualified ID) and entities.
+ */
+export interface WorkspaceModScan {
+  modId: string;
+  modName: string;
+  items: [string, InstalledItemInfo][];
+  entities: InstalledEntityInfo[];
+}
+
+export type WorkspaceScanReply = { id: number; scan: WorkspaceModScan } | { id: number; error: string };
+
+/**
+ * Scan one mod folder in memory (live indexing of the mods open in the workspace,
+ * in workspaceScannerWorker). `openDocuments` maps file paths to unsaved editor text,
+ * which is read instead of the file on disk. Returns the items and entities the mod
+ * adds; IDs it only references are left to the installed index.
+ */
+export function scanWorkspaceMod(
+  modDir: string,
+  baseQualifiedIds: Set<string>,
+  openDocuments: Map<string, string>
+): WorkspaceModScan {
+  resetIncludeLogCaches();
+
+  const items = new Map<string, InstalledItemInfo>();
+  const patchLog: ModPatchLog = { edited: new Set(), removed: new Set(), entryKeys: new Set() };
+  const entities = new Map<string, InstalledEntityInfo>();
+
+  openDocumentTexts = new Map(
+    Array.from(openDocuments, ([file, text]) => [documentTextKey(file), text] as const)
+  );
+  try {
+    scanModFolder(modDir, baseQualifiedIds, items, patchLog, entities);
+  } finally {
+    openDocumentTexts = undefined;
+  }
+
+  const identity = readManifestIdentity(modDir);
+  return {
+    modId: identity.modId,
+    modName: identity.modName,
+    items: Array.from(items).filter(([, info]) => !info.referenceOnly),
+    entities: Array.from(entities.values()),
+  };
+}
@@ -0,0 +1,16 @@
+// src/installedScannerWorker.ts
+import { parentPort, workerData } from "worker_threads";
+import { InstalledScanRequest, ScannerMessage, scanInstalledMods } from "./installedScanner";
+
+/**
+ * Worker thread entry: scans the mods in workerData (an InstalledScanRequest) and
+ * posts ScannerMessages back. The extension host cancels by terminating the worker.
+ */
+const post = (message: ScannerMessage) => parentPort?.postMessage(message);
+
+try {
+  const result = scanInstalledMods(workerData as InstalledScanRequest, post);
+  post({ type: "done", result });
+} catch (err) {
+  post({ type: "failed", error: err instanceof Error ? err.stack ?? err.message : String(err) });
+}
@@ -1,11 +1,12 @@
 // src/itemCompletion.ts
 import * as vscode from "vscode";
 import { parseTree, findNodeAtOffset, Node as JsonNode } from "jsonc-parser";
-import { ItemLookup } from "./stardewIds";
+import { ItemRegistry } from "./itemRegistry";
 import {
   buildSharedItemCompletionState,
   buildItemIdCompletionsForToken,
 } from "./__itemCompletionShared";
+import { looksLikeItemQuery } from "./itemQueries";
 
 function findEnclosingProperty(
   node: JsonNode | undefined
@@ -123,7 +124,7 @@ function getUbMapNameForProperty(
 
 export function registerItemCompletionSupport(
   context: vscode.ExtensionContext,
-  lookups: ItemLookup
+  registry: ItemRegistry
 ): vscode.Disposable {
   // Reliable “chain” suggest trigger (A -> B -> C)
   const triggerSuggestCmd = "stardewModdingSchema.triggerSuggestAfterInsert";
@@ -136,8 +137,6 @@ export function registerItemCompletionSupport(
     })
   );
 
-  // Build once: stable ordering + category codes
-  const sharedState = buildSharedItemCompletionState(lookups);
 
   const selector: vscode.DocumentSelector = [
     { pattern: "**/*.json" },
@@ -204,6 +203,9 @@ export function registerItemCompletionSupport(
             keyName === "ItemId" || keyName === "Name" || keyName === "Id";
           if (!isIdKey) return;
 
+          // Item queries get their own completion (itemQueries.ts)
+          if (keyName === "ItemId" && looksLikeItemQuery(String(valueNode.value ?? ""))) return;
+
           const tokenInfo = getStringReplaceRangeForToken(
             document,
             valueNode,
@@ -212,8 +214,8 @@ export function registerItemCompletionSupport(
           if (!tokenInfo) return;
 
           return buildItemIdCompletionsForToken({
-            lookups,
-            state: sharedState,
+            lookups: registry.lookup,
+            state: buildSharedItemCompletionState(registry.lookup),
             tokenTrimmed: tokenInfo.tokenTrimmed,
             replaceRange: tokenInfo.replaceRange,
             document,
@@ -247,8 +249,8 @@ export function registerItemCompletionSupport(
         if (!keyTokenInfo) return;
 
         return buildItemIdCompletionsForToken({
-          lookups,
-          state: sharedState,
+          lookups: registry.lookup,
+          state: buildSharedItemCompletionState(registry.lookup),
           tokenTrimmed: keyTokenInfo.tokenTrimmed,
           replaceRange: keyTokenInfo.replaceRange,
           document,
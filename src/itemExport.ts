@@ -0,0 +1,243 @@
+// src/itemExport.ts
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { ItemEntry, ItemLookup } from "./stardewIds";
+import { ItemRegistry } from "./itemRegistry";
+
+type ExportFormat = "csv" | "markdown" | "json";
+
+const FORMATS: { format: ExportFormat; label: string; extension: string; filterName: string }[] = [
+  { format: "csv", label: "CSV", extension: "csv", filterName: "CSV" },
+  { format: "markdown", label: "Markdown table", extension: "md", filterName: "Markdown" },
+  { format: "json", label: "JSON", extension: "json", filterName: "JSON" },
+];
+
+/**
+ * One exported item: the merged lookup entry reduced to what item ID lists and
+ * translator spreadsheets need.
+ */
+interface ExportRow {
+  qualifiedId: string;
+  id: string;
+  name: string;
+  localizedName?: string;
+  category: string;
+  source: string;
+  modId: string;
+  nameKey?: string; // i18n / Strings key the display name comes from
+}
+
+const COLUMNS: { key: keyof ExportRow; title: string }[] = [
+  { key: "qualifiedId", title: "Qualified ID" },
+  { key: "id", title: "ID" },
+  { key: "name", title: "Name" },
+  { key: "localizedName", title: "Localized name" },
+  { key: "category", title: "Category" },
+  { key: "source", title: "Source" },
+  { key: "modId", title: "Mod" },
+  { key: "nameKey", title: "Name key" },
+];
+
+/* ------------------------------------------------------------------------- */
+/*  Rows                                                                     */
+/* ------------------------------------------------------------------------- */
+
+/**
+ * The key behind a display name: `{{i18n:Key}}` → `Key`,
+ * `[LocalizedText Strings\Objects:Key]` → `Strings\Objects:Key`.
+ */
+function translationKeyOf(nameKey: string | undefined): string | undefined {
+  if (!nameKey) return;
+  const i18n = /\{\{\s*i18n\s*:\s*([^}|\s]+)/i.exec(nameKey);
+  if (i18n) return i18n[1];
+  const localized = /\[\s*LocalizedText\s+([^\]\s]+)/i.exec(nameKey);
+  if (localized) return localized[1];
+  return nameKey;
+}
+
+/**
+ * Group an entry belongs to in the mod picker: the installed/workspace mod, or its
+ * source for vanilla and custom IDs.
+ */
+function groupOf(entry: ItemEntry): string {
+  if (entry.source === "vanilla") return "Vanilla";
+  if (entry.source === "custom") return "Custom";
+  return entry.modId;
+}
+
+function toRow(entry: ItemEntry): ExportRow {
+  const row: ExportRow = {
+    qualifiedId: entry.qualifiedId,
+    id: entry.id,
+    name: entry.name,
+    category: entry.category,
+    source: entry.source,
+    modId: entry.modId,
+  };
+  if (entry.localizedName) row.localizedName = entry.localizedName;
+  const key = translationKeyOf(entry.nameKey);
+  if (key) row.nameKey = key;
+  return row;
+}
+
+/**
+ * Items a mod defines. IDs it only references (shops, recipes) are left out: their owner
+ * is a guess, and an item ID list shouldn't claim them.
+ */
+function exportableEntries(lookup: ItemLookup): ItemEntry[] {
+  return Array.from(lookup.byQualifiedId.values()).filter((entry) => !entry.referenceOnly);
+}
+
+function collectRows(lookup: ItemLookup, groups: Set<string>, categories: Set<string>): ExportRow[] {
+  const rows: ExportRow[] = [];
+  for (const entry of exportableEntries(lookup)) {
+    if (!groups.has(groupOf(entry)) || !categories.has(entry.category)) continue;
+    rows.push(toRow(entry));
+  }
+  return rows.sort(
+    (a, b) => a.modId.localeCompare(b.modId) || a.qualifiedId.localeCompare(b.qualifiedId)
+  );
+}
+
+/* ------------------------------------------------------------------------- */
+/*  Formats                                                                  */
+/* ------------------------------------------------------------------------- */
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+/**
+ * Render rows. CSV starts with a BOM so spreadsheet apps read it as UTF-8; columns
+ * nobody has a value for (e.g. localized names without a display language) are left out.
+ */
+function renderRows(rows: ExportRow[], format: ExportFormat): string {
+  if (format === "json") {
+    return JSON.stringify({ items: rows }, null, 2) + "\n";
+  }
+
+  const columns = COLUMNS.filter((c) => rows.some((row) => row[c.key] !== undefined));
+  const cells = (row: ExportRow) => columns.map((c) => String(row[c.key] ?? ""));
+
+  if (format === "csv") {
+    const lines = [columns.map((c) => csvCell(c.title)).join(",")];
+    for (const row of rows) lines.push(cells(row).map(csvCell).join(","));
+    return "\ufeff" + lines.join("\r\n") + "\r\n";
+  }
+
+  const lines = [
+    `| ${columns.map((c) => c.title).join(" | ")} |`,
+    `| ${columns.map(() => "---").join(" | ")} |`,
+  ];
+  for (const row of rows) {
+    lines.push(`| ${cells(row).map(markdownCell).join(" | ")} |`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+/* ------------------------------------------------------------------------- */
+/*  Command                                                                  */
+/* ------------------------------------------------------------------------- */
+
+async function exportItems(lookup: ItemLookup): Promise<void> {
+  const groupCounts = new Map<string, { count: number; source: string }>();
+  const categoryCounts = new Map<string, number>();
+  for (const entry of exportableEntries(lookup)) {
+    const group = groupCounts.get(groupOf(entry)) ?? { count: 0, source: entry.source };
+    group.count++;
+    groupCounts.set(groupOf(entry), group);
+    categoryCounts.set(entry.category, (categoryCounts.get(entry.category) ?? 0) + 1);
+  }
+
+  // Vanilla and custom first, then mods by ID
+  const sourceOrder = ["vanilla", "custom", "workspace", "installed"];
+  const groupPicks = Array.from(groupCounts, ([group, info]) => ({
+    label: group,
+    description: `${info.count} items · ${info.source}`,
+    group,
+    order: sourceOrder.indexOf(info.source),
+  })).sort((a, b) => a.order - b.order || a.label.localeCompare(b.label));
+
+  const pickedGroups = await vscode.window.showQuickPick(groupPicks, {
+    title: "Export item IDs (1/3): mods",
+    placeHolder: "Select the mods (or Vanilla / Custom) to export",
+    canPickMany: true,
+    matchOnDescription: true,
+  });
+  if (!pickedGroups || pickedGroups.length === 0) return;
+
+  const categoryPicks = Array.from(categoryCounts, ([category, count]) => ({
+    label: category,
+    description: `${count} items`,
+    picked: true,
+  })).sort((a, b) => a.label.localeCompare(b.label));
+
+  const pickedCategories = await vscode.window.showQuickPick(categoryPicks, {
+    title: "Export item IDs (2/3): categories",
+    placeHolder: "Select the item categories to export",
+    canPickMany: true,
+  });
+  if (!pickedCategories || pickedCategories.length === 0) return;
+
+  const pickedFormat = await vscode.window.showQuickPick(
+    FORMATS.map((f) => ({ label: f.label, description: `.${f.extension}`, format: f })),
+    { title: "Export item IDs (3/3): format" }
+  );
+  if (!pickedFormat) return;
+  const { format, extension, filterName } = pickedFormat.format;
+
+  const rows = collectRows(
+    lookup,
+    new Set(pickedGroups.map((p) => p.group)),
+    new Set(pickedCategories.map((p) => p.label))
+  );
+  if (rows.length === 0) {
+    vscode.window.showInformationMessage("Stardew Modding Schema: No items match that selection.");
+    return;
+  }
+
+  const baseName = pickedGroups.length === 1 ? pickedGroups[0].group : "stardew-items";
+  const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+  const target = await vscode.window.showSaveDialog({
+    title: "Export item IDs",
+    defaultUri: folder ? vscode.Uri.joinPath(folder, `${baseName}.${extension}`) : undefined,
+    filters: { [filterName]: [extension] },
+  });
+  if (!target) return;
+
+  try {
+    fs.mkdirSync(path.dirname(target.fsPath), { recursive: true });
+    fs.writeFileSync(target.fsPath, renderRows(rows, format), "utf8");
+  } catch (err) {
+    vscode.window.showErrorMessage(
+      `Stardew Modding Schema: Could not write ${target.fsPath}: ${(err as Error).message}`
+    );
+    return;
+  }
+
+  const choice = await vscode.window.showInformationMessage(
+    `Stardew Modding Schema: Exported ${rows.length} items to ${path.basename(target.fsPath)}.`,
+    "Open"
+  );
+  if (choice === "Open") {
+    await vscode.window.showTextDocument(target);
+  }
+}
+
+/* ------------------------------------------------------------------------- */
+/*  Registration                                                             */
+/* ------------------------------------------------------------------------- */
+
+export function registerItemExportSupport(
+  context: vscode.ExtensionContext,
+  registry: ItemRegistry
+): vscode.Disposable {
+  return vscode.commands.registerCommand("stardewModdingSchema.exportItemIds", () =>
+    exportItems(registry.lookup)
+  );
+}
@@ -4,6 +4,11 @@ import { parseTree, findNodeAtOffset, parse as parseJsonc } from "jsonc-parser";
 import * as fs from "fs";
 import * as path from "path";
 import { ItemEntry, ItemLookup } from "./stardewIds";
+import { ItemRegistry } from "./itemRegistry";
+import { clearSpritePreviewCache, getItemSpriteDataUri } from "./spritePreview";
+import { appendItemMetadataMarkdown, describeItemConditions } from "./itemMetadata";
+import { formatItemDisplayName } from "./localization";
+import { looksLikeItemQuery } from "./itemQueries";
 
 /**
  * Minimal JSON AST node shape to avoid TS recursive type issues.
@@ -435,6 +440,9 @@ function getItemTokenAtPosition(
   // Ignore pure i18n-style tokens like "{{i18n:Key}}"
   if (/^\{\{[^}]+:[^}]+\}\}$/.test(rawValue)) return null;
 
+  // Item queries (RANDOM_ITEMS ..., FLAVORED_ITEM ...) are explained by itemQueries.ts
+  if (targetNode.type === "string" && looksLikeItemQuery(rawValue)) return null;
+
   let token = rawValue;
   let manifestId: string | null = null;
 
@@ -456,8 +464,9 @@ function getItemTokenAtPosition(
     token = token.split(/\s+/)[0];
   }
 
-  // Handle "Something:Else" formats by keeping the left part (matches older behavior)
-  if (token.includes(":")) {
+  // Handle "Something:Else" formats by keeping the left part (matches older behavior).
+  // Wallpaper/flooring IDs are "<set>:<index>", so keep those whole.
+  if (token.includes(":") && !/^\((WP|FL)\)/.test(token)) {
     token = token.split(":")[0];
   }
 
@@ -565,9 +574,22 @@ function resolveModIdSuffixFallback(
 /* ------------------------------------------------------------------------- */
 
 export function registerItemHoverSupport(
-  _context: vscode.ExtensionContext,
-  lookups: ItemLookup
+  context: vscode.ExtensionContext,
+  registry: ItemRegistry
 ): vscode.Disposable {
+  // Sprites are cropped lazily and cached; drop them when their source settings change.
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (
+        e.affectsConfiguration("stardewModdingSchema.unpackedContentPath") ||
+        e.affectsConfiguration("stardewModdingSchema.showItemSprites")
+      ) {
+        clearSpritePreviewCache();
+      }
+    })
+  );
+  context.subscriptions.push({ dispose: clearSpritePreviewCache });
+
   // Match ANY json anywhere.
   const selector: vscode.DocumentSelector = [
     { pattern: "**/*.json" },
@@ -604,6 +626,8 @@ export function registerItemHoverSupport(
           }
         }
 
+        const lookups = registry.lookup;
+
         // Strict matches first
         let entries = resolveStrictMatches(token, lookups);
 
@@ -618,17 +642,26 @@ export function registerItemHoverSupport(
 
         if (entries.length === 1) {
           const e = entries[0];
-          md.appendMarkdown(`**${e.name}**  \n\n`);
+          md.appendMarkdown(`**${formatItemDisplayName(e)}**  \n\n`);
+
+          const spriteUri = getItemSpriteDataUri(e);
+          if (spriteUri) {
+            md.appendMarkdown(`![sprite](${spriteUri})\n\n`);
+          }
+
           md.appendMarkdown(`- ID: \`${e.id}\`\n`);
           md.appendMarkdown(`- Qualified ID: \`${e.qualifiedId}\`\n`);
           md.appendMarkdown(`- Category: \`${e.category}\`\n`);
           md.appendMarkdown(`- Mod: \`${e.modId}\`\n`);
           md.appendMarkdown(`- Source: \`${e.source}\`\n`);
+          appendItemMetadataMarkdown(md, e);
         } else {
           md.appendMarkdown(`**${token}**\n\nMatches:\n`);
           for (const e of entries.slice(0, 25)) {
             md.appendMarkdown(
-              `- \`${e.qualifiedId}\` • ${e.name} • ID \`${e.id}\` • ${e.category} • ${e.source} (${e.modId})\n`
+              `- \`${e.qualifiedId}\` • ${formatItemDisplayName(e)} • ID \`${e.id}\` • ${e.category} • ${e.source} (${e.modId})${
+                e.conditions?.length ? ` • ⚠ only when ${describeItemConditions(e.conditions)}` : ""
+              }\n`
             );
           }
           if (entries.length > 25) {
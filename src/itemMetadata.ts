@@ -0,0 +1,147 @@
+// src/itemMetadata.ts
+import * as vscode from "vscode";
+import { ItemCondition, ItemEntry } from "./stardewIds";
+
+/**
+ * Vanilla numeric object categories (Data/Objects "Category").
+ * contextTag is the automatic `category_*` tag the game adds for that category.
+ */
+export const ITEM_CATEGORIES: Record<number, { label: string; contextTag: string }> = {
+  [-2]: { label: "Gem", contextTag: "category_gem" },
+  [-4]: { label: "Fish", contextTag: "category_fish" },
+  [-5]: { label: "Egg", contextTag: "category_egg" },
+  [-6]: { label: "Milk", contextTag: "category_milk" },
+  [-7]: { label: "Cooking", contextTag: "category_cooking" },
+  [-8]: { label: "Crafting", contextTag: "category_crafting" },
+  [-9]: { label: "Big Craftable", contextTag: "category_big_craftable" },
+  [-12]: { label: "Mineral", contextTag: "category_minerals" },
+  [-14]: { label: "Meat", contextTag: "category_meat" },
+  [-15]: { label: "Metal Resource", contextTag: "category_metal_resources" },
+  [-16]: { label: "Building Resource", contextTag: "category_building_resources" },
+  [-17]: { label: "Sell at Pierre's", contextTag: "category_sell_at_pierres" },
+  [-18]: {
+    label: "Sell at Pierre's and Marnie's",
+    contextTag: "category_sell_at_pierres_and_marnies",
+  },
+  [-19]: { label: "Fertilizer", contextTag: "category_fertilizer" },
+  [-20]: { label: "Junk", contextTag: "category_junk" },
+  [-21]: { label: "Bait", contextTag: "category_bait" },
+  [-22]: { label: "Tackle", contextTag: "category_tackle" },
+  [-23]: { label: "Sell at Fish Shop", contextTag: "category_sell_at_fish_shop" },
+  [-24]: { label: "Furniture", contextTag: "category_furniture" },
+  [-25]: { label: "Ingredient", contextTag: "category_ingredients" },
+  [-26]: { label: "Artisan Good", contextTag: "category_artisan_goods" },
+  [-27]: { label: "Syrup", contextTag: "category_syrup" },
+  [-28]: { label: "Monster Loot", contextTag: "category_monster_loot" },
+  [-29]: { label: "Equipment", contextTag: "category_equipment" },
+  [-74]: { label: "Seed", contextTag: "category_seeds" },
+  [-75]: { label: "Vegetable", contextTag: "category_vegetable" },
+  [-79]: { label: "Fruit", contextTag: "category_fruits" },
+  [-80]: { label: "Flower", contextTag: "category_flowers" },
+  [-81]: { label: "Forage", contextTag: "category_greens" },
+  [-95]: { label: "Hat", contextTag: "category_hat" },
+  [-96]: { label: "Ring", contextTag: "category_ring" },
+  [-97]: { label: "Boots", contextTag: "category_boots" },
+  [-98]: { label: "Weapon", contextTag: "category_weapon" },
+  [-99]: { label: "Tool", contextTag: "category_tool" },
+  [-100]: { label: "Clothing", contextTag: "category_clothing" },
+  [-101]: { label: "Trinket", contextTag: "category_trinket" },
+  [-102]: { label: "Book", contextTag: "category_books" },
+  [-103]: { label: "Skill Book", contextTag: "category_skill_books" },
+};
+
+/**
+ * "-75 (Vegetable)" style label for a numeric category.
+ */
+export function describeItemCategory(category: number): string {
+  const known = ITEM_CATEGORIES[category];
+  return known ? `${category} (${known.label})` : String(category);
+}
+
+/**
+ * True if the entry carries any of the optional Data fields (price, category, ...).
+ */
+export function hasItemMetadata(entry: ItemEntry): boolean {
+  return (
+    entry.price !== undefined ||
+    entry.itemCategory !== undefined ||
+    entry.edibility !== undefined ||
+    !!entry.type ||
+    !!entry.contextTags?.length ||
+    !!entry.description ||
+    !!entry.conditions?.length ||
+    !!entry.editedBy?.length ||
+    !!entry.removedBy?.length ||
+    !!entry.addedBy?.length
+  );
+}
+
+/**
+ * "EnableFancyCrops = true, HasMod = spacechase0.JsonAssets" for an item's When conditions.
+ */
+export function describeItemConditions(conditions: ItemCondition[]): string {
+  return conditions.map((c) => `${c.key} = ${c.value}`).join(", ");
+}
+
+/**
+ * Completion detail suffix for items that only exist under some When conditions
+ * (or that an installed mod deletes).
+ */
+export function conditionalItemDetail(entry: ItemEntry): string {
+  if (entry.removedBy?.length) {
+    return ` (removed by ${entry.removedBy.join(", ")})`;
+  }
+  return entry.conditions?.length
+    ? ` (only when ${describeItemConditions(entry.conditions)})`
+    : "";
+}
+
+/**
+ * Append the optional Data fields as markdown bullet lines.
+ * Shared by item hover and completion docs so both read the same.
+ */
+export function appendItemMetadataMarkdown(
+  md: vscode.MarkdownString,
+  entry: ItemEntry
+): void {
+  if (entry.price !== undefined) {
+    md.appendMarkdown(`- Price: \`${entry.price}g\`\n`);
+  }
+  if (entry.itemCategory !== undefined) {
+    md.appendMarkdown(`- Item category: \`${describeItemCategory(entry.itemCategory)}\`\n`);
+  }
+  if (entry.type) {
+    md.appendMarkdown(`- Type: \`${entry.type}\`\n`);
+  }
+  if (entry.edibility !== undefined && entry.edibility !== -300) {
+    md.appendMarkdown(`- Edibility: \`${entry.edibility}\`\n`);
+  }
+  if (entry.contextTags?.length) {
+    const tags = entry.contextTags.map((t) => `\`${t}\``).join(", ");
+    md.appendMarkdown(`- Context tags: ${tags}\n`);
+  }
+  if (entry.conditions?.length) {
+    const conditions = entry.conditions.map((c) => {
+      let text = `\`${c.key}\` = \`${c.value}\``;
+      if (c.kind === "config") {
+        text += c.configDefault !== undefined ? ` (config option, default \`${c.configDefault}\`)` : " (config option)";
+      }
+      return text;
+    });
+    md.appendMarkdown(`- ⚠ Only added when ${conditions.join(" and ")}\n`);
+  }
+  if (entry.editedBy?.length) {
+    md.appendMarkdown(`- Edited by: ${entry.editedBy.map((m) => `\`${m}\``).join(", ")}\n`);
+  }
+  if (entry.addedBy?.length) {
+    md.appendMarkdown(
+      `- ⚠ Added by ${entry.addedBy.length} mods: ${entry.addedBy.map((m) => `\`${m}\``).join(", ")} (conflicting definitions)\n`
+    );
+  }
+  if (entry.removedBy?.length) {
+    md.appendMarkdown(`- ⚠ Removed by ${entry.removedBy.map((m) => `\`${m}\``).join(", ")}\n`);
+  }
+  if (entry.description) {
+    md.appendMarkdown(`\n_${entry.description.replace(/[_*`]/g, "\\$&")}_\n`);
+  }
+}
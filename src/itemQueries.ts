@@ -0,0 +1,965 @@
+// src/itemQueries.ts
+import * as vscode from "vscode";
+import { parseTree, findNodeAtOffset, Node as JsonNode } from "jsonc-parser";
+import { ItemEntry, ItemLookup } from "./stardewIds";
+import { ItemRegistry, updateDocumentsOnRegistryChange } from "./itemRegistry";
+import { ITEM_CATEGORIES, describeItemCategory } from "./itemMetadata";
+import { getContextTagIndex, isKnownTag } from "./contextTags";
+import { buildSharedItemCompletionState } from "./__itemCompletionShared";
+import { searchItems } from "./itemSearchIndex";
+import { formatItemDisplayName } from "./localization";
+
+/**
+ * Stardew 1.6 item queries, e.g. `FLAVORED_ITEM Wine (O)398` or
+ * `RANDOM_ITEMS (O) @has_category -75 @requirePrice`, accepted wherever the game
+ * spawns items from an ItemId / RandomItemId field.
+ */
+
+type ArgKind = "typeDefinition" | "itemId" | "toolId" | "flavor" | "npc" | "location";
+
+interface ItemQueryArg {
+  name: string;
+  kind: ArgKind;
+  optional?: boolean;
+}
+
+interface ItemQueryDefinition {
+  description: string;
+  args: ItemQueryArg[];
+  filters?: Set<string>; // @filters this query accepts
+  alternateQuery?: boolean; // the rest of the string is a fallback item query
+}
+
+const ALL_FILTERS = [
+  "@has_category",
+  "@has_context_tag",
+  "@has_id_in_base_range",
+  "@has_id_prefix",
+  "@has_object_type",
+  "@isRandomSale",
+  "@requirePrice",
+];
+
+const FILTER_DESCRIPTIONS: Record<string, string> = {
+  "@has_category": "Only items with one of these numeric categories (any category if none given).",
+  "@has_context_tag": "Only items with one of these context tags.",
+  "@has_id_in_base_range": "Only items whose numeric ID is between <min> and <max> (inclusive).",
+  "@has_id_prefix": "Only items whose unqualified ID starts with one of these prefixes.",
+  "@has_object_type": "Only objects with one of these object types (e.g. Arch, Fish).",
+  "@isRandomSale": "Skip items marked ExcludeFromRandomSale.",
+  "@requirePrice": "Skip items with a sell price of 0.",
+};
+
+// Filters that take no values
+const FLAG_FILTERS = new Set(["@isRandomSale", "@requirePrice"]);
+
+export const ITEM_QUERIES: Record<string, ItemQueryDefinition> = {
+  ALL_ITEMS: {
+    description: "Every item, optionally only for one item type.",
+    args: [{ name: "type definition ID", kind: "typeDefinition", optional: true }],
+    filters: new Set(["@isRandomSale", "@requirePrice"]),
+  },
+  DISH_OF_THE_DAY: {
+    description: "The Saloon's dish of the day.",
+    args: [],
+  },
+  FLAVORED_ITEM: {
+    description: "A flavored item (e.g. wine, jelly, roe) made from an ingredient.",
+    args: [
+      { name: "flavor type", kind: "flavor" },
+      { name: "ingredient ID", kind: "itemId" },
+      { name: "ingredient preserved ID", kind: "itemId", optional: true },
+    ],
+  },
+  ITEMS_SOLD_BY_PLAYER: {
+    description: "Random items the player recently sold to a shop (e.g. SeedShop, FishShop).",
+    args: [{ name: "shop location", kind: "location" }],
+  },
+  LOST_BOOK_OR_ITEM: {
+    description: "A lost book if the player hasn't found them all, else the fallback query.",
+    args: [],
+    alternateQuery: true,
+  },
+  MONSTER_SLAYER_REWARDS: {
+    description: "Every monster slayer reward the player has unlocked.",
+    args: [],
+  },
+  MOVIE_CONCESSIONS_FOR_GUEST: {
+    description: "The movie concessions shown for an NPC (default: today's invited guest).",
+    args: [{ name: "NPC name", kind: "npc", optional: true }],
+  },
+  RANDOM_ARTIFACT_FOR_DIG_SPOT: {
+    description: "A random artifact for an artifact spot in the current location.",
+    args: [],
+  },
+  RANDOM_BASE_SEASON_ITEM: {
+    description: "A random seasonal vanilla item (used by the traveling cart).",
+    args: [],
+  },
+  RANDOM_ITEMS: {
+    description: "Random items of one type, narrowed by the @ filters.",
+    args: [{ name: "type definition ID", kind: "typeDefinition" }],
+    filters: new Set(ALL_FILTERS),
+  },
+  SECRET_NOTE_OR_ITEM: {
+    description: "A secret note (or journal scrap on Ginger Island) if any are left, else the fallback query.",
+    args: [],
+    alternateQuery: true,
+  },
+  SHOP_TOWN_KEY: {
+    description: "The special town key sold in shops.",
+    args: [],
+  },
+  TOOL_UPGRADES: {
+    description: "Clint's tool upgrades for the player's current tools, optionally for one tool.",
+    args: [{ name: "tool ID", kind: "toolId", optional: true }],
+  },
+};
+
+const FLAVOR_TYPES = [
+  "AgedRoe",
+  "Bait",
+  "DriedFruit",
+  "DriedMushroom",
+  "Honey",
+  "Jelly",
+  "Juice",
+  "Pickle",
+  "Roe",
+  "SmokedFish",
+  "SpecificBait",
+  "Wine",
+];
+
+const OBJECT_TYPES = [
+  "Arch",
+  "asdf",
+  "Basic",
+  "Cooking",
+  "Crafting",
+  "Fish",
+  "interactive",
+  "Litter",
+  "Minerals",
+  "Quest",
+  "Ring",
+  "Seeds",
+];
+
+/**
+ * Fields whose string values may hold an item query instead of an item ID.
+ */
+const ITEM_QUERY_FIELDS = new Set<string>(["ItemId", "RandomItemId"]);
+
+const MAX_HOVER_ITEMS = 10;
+
+/* ------------------------------------------------------------------------- */
+/*  Parser                                                                   */
+/* ------------------------------------------------------------------------- */
+
+export interface ItemQueryToken {
+  text: string; // unquoted
+  start: number; // offset within the parsed string
+  end: number;
+}
+
+export interface ItemQueryFilter {
+  name: string;
+  token: ItemQueryToken;
+  values: ItemQueryToken[];
+}
+
+export interface ParsedItemQuery {
+  name: string;
+  nameToken: ItemQueryToken;
+  definition?: ItemQueryDefinition; // undefined for unknown queries
+  args: ItemQueryToken[]; // positional args (before the first @filter)
+  filters: ItemQueryFilter[];
+  alternate?: ParsedItemQuery | ItemQueryToken; // fallback query / item ID
+}
+
+export interface ItemQueryProblem {
+  message: string;
+  start: number;
+  end: number;
+  severity: "error" | "warning";
+}
+
+/**
+ * Split on spaces, keeping "quoted arguments" and {{CP tokens}} whole.
+ */
+function tokenizeItemQuery(text: string, offset = 0): ItemQueryToken[] {
+  const tokens: ItemQueryToken[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    while (i < text.length && /\s/.test(text[i])) i++;
+    if (i >= text.length) break;
+
+    const start = i;
+    let value = "";
+
+    if (text[i] === '"') {
+      i++;
+      while (i < text.length && text[i] !== '"') value += text[i++];
+      if (i < text.length) i++; // closing quote
+    } else {
+      let depth = 0;
+      while (i < text.length && (depth > 0 || !/\s/.test(text[i]))) {
+        if (text.startsWith("{{", i)) {
+          depth++;
+          value += "{{";
+          i += 2;
+          continue;
+        }
+        if (depth > 0 && text.startsWith("}}", i)) {
+          depth--;
+          value += "}}";
+          i += 2;
+          continue;
+        }
+        value += text[i++];
+      }
+    }
+
+    tokens.push({ text: value, start: offset + start, end: offset + i });
+  }
+
+  return tokens;
+}
+
+function looksLikeQueryName(token: string): boolean {
+  return /^[A-Z][A-Z0-9]*_[A-Z0-9_]+$/.test(token) || token in ITEM_QUERIES;
+}
+
+/**
+ * True if the value starts with an item query name (known or ALL_CAPS_WITH_UNDERSCORES).
+ */
+export function looksLikeItemQuery(value: string): boolean {
+  const first = value.trim().split(/\s+/, 1)[0] ?? "";
+  return !!first && looksLikeQueryName(first);
+}
+
+/**
+ * Parse an item query string. Returns null when the text isn't a query
+ * (e.g. a plain item ID). Offsets are relative to `text` plus `offset`.
+ */
+export function parseItemQuery(text: string, offset = 0): ParsedItemQuery | null {
+  const tokens = tokenizeItemQuery(text, offset);
+  const head = tokens[0];
+  if (!head || !looksLikeQueryName(head.text)) return null;
+
+  const definition = ITEM_QUERIES[head.text];
+  const parsed: ParsedItemQuery = {
+    name: head.text,
+    nameToken: head,
+    definition,
+    args: [],
+    filters: [],
+  };
+
+  if (definition?.alternateQuery) {
+    const rest = tokens[1];
+    if (rest) {
+      const restText = text.slice(rest.start - offset);
+      parsed.alternate = parseItemQuery(restText, rest.start) ?? {
+        text: restText.trim(),
+        start: rest.start,
+        end: offset + text.trimEnd().length,
+      };
+    }
+    return parsed;
+  }
+
+  for (const token of tokens.slice(1)) {
+    if (token.text.startsWith("@")) {
+      parsed.filters.push({ name: token.text, token, values: [] });
+    } else if (parsed.filters.length > 0) {
+      parsed.filters[parsed.filters.length - 1].values.push(token);
+    } else {
+      parsed.args.push(token);
+    }
+  }
+
+  return parsed;
+}
+
+/* ------------------------------------------------------------------------- */
+/*  Resolution / validation                                                  */
+/* ------------------------------------------------------------------------- */
+
+function hasCpToken(text: string): boolean {
+  return text.includes("{{");
+}
+
+/**
+ * Resolve an item reference the way the game does: qualified IDs directly,
+ * unqualified IDs as objects first.
+ */
+function resolveItemRef(
+  lookups: ItemLookup,
+  raw: string,
+  defaultPrefix = "O"
+): ItemEntry | undefined {
+  const id = raw.trim();
+  if (!id) return;
+  if (/^\([A-Za-z]+\)/.test(id)) return lookups.byQualifiedId.get(id);
+  return (
+    lookups.byQualifiedId.get(`(${defaultPrefix})${id}`) ??
+    lookups.byId.get(id)?.[0]
+  );
+}
+
+function problem(
+  token: ItemQueryToken,
+  message: string,
+  severity: "error" | "warning" = "error"
+): ItemQueryProblem {
+  return { message, start: token.start, end: token.end, severity };
+}
+
+function validateArg(
+  arg: ItemQueryArg,
+  token: ItemQueryToken,
+  lookups: ItemLookup,
+  categoryCodes: string[]
+): ItemQueryProblem | undefined {
+  if (hasCpToken(token.text)) return; // resolved at runtime
+
+  switch (arg.kind) {
+    case "flavor":
+      if (!FLAVOR_TYPES.includes(token.text)) {
+        return problem(token, `Unknown flavor type '${token.text}'. Expected one of: ${FLAVOR_TYPES.join(", ")}.`);
+      }
+      return;
+    case "typeDefinition": {
+      const m = /^\(([A-Za-z]+)\)$/.exec(token.text);
+      if (!m) {
+        return problem(token, `Expected an item type definition like '(O)' or '(BC)', got '${token.text}'.`);
+      }
+      if (!categoryCodes.includes(m[1])) {
+        return problem(token, `Unknown item type '${token.text}'.`, "warning");
+      }
+      return;
+    }
+    case "itemId":
+      if (!resolveItemRef(lookups, token.text)) {
+        return problem(token, `Unknown item '${token.text}' (not a vanilla, custom or installed item).`, "warning");
+      }
+      return;
+    case "toolId":
+      if (!resolveItemRef(lookups, token.text, "T")) {
+        return problem(token, `Unknown tool '${token.text}'.`, "warning");
+      }
+      return;
+    default:
+      return;
+  }
+}
+
+function validateFilter(
+  filter: ItemQueryFilter,
+  definition: ItemQueryDefinition,
+  queryName: string,
+  isKnownContextTag: (tag: string) => boolean
+): ItemQueryProblem[] {
+  if (!ALL_FILTERS.includes(filter.name)) {
+    return [problem(filter.token, `Unknown item query filter '${filter.name}'. Expected one of: ${ALL_FILTERS.join(", ")}.`)];
+  }
+  if (!definition.filters?.has(filter.name)) {
+    return [problem(filter.token, `${queryName} doesn't support the ${filter.name} filter.`)];
+  }
+
+  const out: ItemQueryProblem[] = [];
+  const values = filter.values.filter((v) => !hasCpToken(v.text));
+
+  if (FLAG_FILTERS.has(filter.name) && filter.values.length > 0) {
+    out.push(problem(filter.values[0], `${filter.name} doesn't take values.`, "warning"));
+  }
+
+  if (filter.name === "@has_id_in_base_range") {
+    if (filter.values.length !== 2) {
+      out.push(problem(filter.token, "@has_id_in_base_range needs exactly two values: <min> <max>."));
+    }
+    for (const v of values) {
+      if (!/^-?\d+$/.test(v.text)) out.push(problem(v, `Expected a whole number, got '${v.text}'.`));
+    }
+  }
+
+  if (filter.name === "@has_category") {
+    for (const v of values) {
+      if (!/^-?\d+$/.test(v.text)) {
+        out.push(problem(v, `Expected a numeric item category (e.g. -75), got '${v.text}'.`));
+      } else if (!ITEM_CATEGORIES[Number(v.text)]) {
+        out.push(problem(v, `Unknown item category ${v.text}.`, "warning"));
+      }
+    }
+  }
+
+  if (filter.name === "@has_context_tag") {
+    for (const v of values) {
+      const tag = v.text.replace(/^!/, "");
+      if (!isKnownContextTag(tag)) {
+        out.push(problem(v, `Unknown context tag '${tag}': no vanilla or installed item has it.`, "warning"));
+      }
+    }
+  }
+
+  if (filter.name === "@has_object_type") {
+    for (const v of values) {
+      if (!OBJECT_TYPES.includes(v.text)) {
+        out.push(problem(v, `Unknown object type '${v.text}'.`, "warning"));
+      }
+    }
+  }
+
+  if (
+    (filter.name === "@has_id_prefix" || filter.name === "@has_object_type") &&
+    filter.values.length === 0
+  ) {
+    out.push(problem(filter.token, `${filter.name} needs at least one value.`));
+  }
+
+  return out;
+}
+
+/**
+ * Check a parsed query: query name, argument count and values, filters.
+ */
+export function validateItemQuery(
+  parsed: ParsedItemQuery,
+  lookups: ItemLookup,
+  isKnownContextTag: (tag: string) => boolean
+): ItemQueryProblem[] {
+  const definition = parsed.definition;
+  if (!definition) {
+    return [
+      problem(
+        parsed.nameToken,
+        `Unknown item query '${parsed.name}'. Expected one of: ${Object.keys(ITEM_QUERIES).join(", ")}.`,
+        "warning"
+      ),
+    ];
+  }
+
+  const out: ItemQueryProblem[] = [];
+  const categoryCodes = buildSharedItemCompletionState(lookups).categoryCodes;
+
+  const required = definition.args.filter((a) => !a.optional).length;
+  if (parsed.args.length < required) {
+    const missing = definition.args.slice(parsed.args.length).filter((a) => !a.optional);
+    out.push(
+      problem(parsed.nameToken, `${parsed.name} is missing: ${missing.map((a) => `<${a.name}>`).join(" ")}.`)
+    );
+  }
+
+  parsed.args.forEach((token, i) => {
+    const arg = definition.args[i];
+    if (!arg) {
+      out.push(problem(token, `${parsed.name} takes at most ${definition.args.length} argument(s); '${token.text}' is ignored.`, "warning"));
+      return;
+    }
+    const p = validateArg(arg, token, lookups, categoryCodes);
+    if (p) out.push(p);
+  });
+
+  for (const filter of parsed.filters) {
+    out.push(...validateFilter(filter, definition, parsed.name, isKnownContextTag));
+  }
+
+  if (parsed.alternate) {
+    if ("nameToken" in parsed.alternate) {
+      out.push(...validateItemQuery(parsed.alternate, lookups, isKnownContextTag));
+    } else if (
+      !hasCpToken(parsed.alternate.text) &&
+      !resolveItemRef(lookups, parsed.alternate.text)
+    ) {
+      out.push(problem(parsed.alternate, `Unknown fallback item '${parsed.alternate.text}'.`, "warning"));
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Items from the registry that a RANDOM_ITEMS / ALL_ITEMS query can produce.
+ * Approximate: only filters we have metadata for are applied (@isRandomSale is not).
+ */
+function findItemsForQuery(
+  parsed: ParsedItemQuery,
+  lookups: ItemLookup,
+  tagIndex: { byTag: Map<string, ItemEntry[]> }
+): ItemEntry[] {
+  const typeArg = parsed.args[0]?.text;
+  const typePrefix = typeArg ? /^\(([A-Za-z]+)\)$/.exec(typeArg)?.[1] : undefined;
+
+  let items = Array.from(lookups.byQualifiedId.values()).filter(
+    (e) => !typePrefix || e.qualifiedId.startsWith(`(${typePrefix})`)
+  );
+
+  for (const filter of parsed.filters) {
+    const values = filter.values.map((v) => v.text).filter((v) => !hasCpToken(v));
+
+    switch (filter.name) {
+      case "@has_category": {
+        const wanted = new Set(values.map(Number));
+        items = items.filter((e) =>
+          wanted.size ? wanted.has(e.itemCategory ?? NaN) : !!e.itemCategory
+        );
+        break;
+      }
+      case "@has_context_tag": {
+        const carriers = new Set<ItemEntry>();
+        for (const tag of values) {
+          for (const e of tagIndex.byTag.get(tag.toLowerCase()) ?? []) carriers.add(e);
+        }
+        items = items.filter((e) => carriers.has(e));
+        break;
+      }
+      case "@has_id_prefix":
+        items = items.filter((e) => values.some((p) => e.id.startsWith(p)));
+        break;
+      case "@has_id_in_base_range": {
+        const [min, max] = values.map(Number);
+        items = items.filter((e) => {
+          const n = /^\d+$/.test(e.id) ? Number(e.id) : NaN;
+          return n >= min && n <= max;
+        });
+        break;
+      }
+      case "@has_object_type":
+        items = items.filter((e) => !!e.type && values.includes(e.type));
+        break;
+      case "@requirePrice":
+        items = items.filter((e) => (e.price ?? 0) > 0);
+        break;
+      default:
+        break;
+    }
+  }
+
+  return items;
+}
+
+function describeItemLink(lookups: ItemLookup, raw: string, defaultPrefix = "O"): string {
+  const entry = resolveItemRef(lookups, raw, defaultPrefix);
+  return entry
+    ? `**${formatItemDisplayName(entry)}** (\`${entry.qualifiedId}\`)`
+    : `\`${raw}\` _(unknown item)_`;
+}
+
+function appendQueryMarkdown(
+  md: vscode.MarkdownString,
+  parsed: ParsedItemQuery,
+  lookups: ItemLookup,
+  tagIndex: { byTag: Map<string, ItemEntry[]> }
+): void {
+  const definition = parsed.definition;
+  md.appendMarkdown(`**Item query** \`${parsed.name}\`\n\n`);
+  if (!definition) {
+    md.appendMarkdown("_Unknown item query._\n");
+    return;
+  }
+  md.appendMarkdown(`${definition.description}\n\n`);
+
+  if (parsed.name === "FLAVORED_ITEM" && parsed.args.length >= 2) {
+    const [flavor, ingredient, preserved] = parsed.args;
+    md.appendMarkdown(`- ${flavor.text} made from ${describeItemLink(lookups, ingredient.text)}\n`);
+    if (preserved) {
+      md.appendMarkdown(`- Preserved ingredient: ${describeItemLink(lookups, preserved.text)}\n`);
+    }
+  } else if (parsed.name === "TOOL_UPGRADES" && parsed.args[0]) {
+    md.appendMarkdown(`- Only upgrades for ${describeItemLink(lookups, parsed.args[0].text, "T")}\n`);
+  } else {
+    parsed.args.forEach((token, i) => {
+      const arg = definition.args[i];
+      md.appendMarkdown(`- ${arg ? arg.name : "extra argument"}: \`${token.text}\`\n`);
+    });
+  }
+
+  for (const filter of parsed.filters) {
+    const values = filter.values.map((v) =>
+      filter.name === "@has_category" && /^-?\d+$/.test(v.text)
+        ? describeItemCategory(Number(v.text))
+        : v.text
+    );
+    md.appendMarkdown(
+      `- \`${filter.name}\`${values.length ? ` ${values.map((v) => `\`${v}\``).join(", ")}` : ""} — ${
+        FILTER_DESCRIPTIONS[filter.name] ?? "unknown filter"
+      }\n`
+    );
+  }
+
+  if (parsed.name === "RANDOM_ITEMS" || parsed.name === "ALL_ITEMS") {
+    const items = findItemsForQuery(parsed, lookups, tagIndex);
+    md.appendMarkdown(`\nMatches ${items.length} indexed item(s)`);
+    md.appendMarkdown(items.length ? ":\n" : ".\n");
+    for (const e of items.slice(0, MAX_HOVER_ITEMS)) {
+      md.appendMarkdown(`- \`${e.qualifiedId}\` • ${formatItemDisplayName(e)}\n`);
+    }
+    if (items.length > MAX_HOVER_ITEMS) {
+      md.appendMarkdown(`\n_+${items.length - MAX_HOVER_ITEMS} more_\n`);
+    }
+  }
+
+  if (parsed.alternate) {
+    md.appendMarkdown("\n**Fallback:** ");
+    if ("nameToken" in parsed.alternate) {
+      md.appendMarkdown("\n\n");
+      appendQueryMarkdown(md, parsed.alternate, lookups, tagIndex);
+    } else {
+      md.appendMarkdown(`${describeItemLink(lookups, parsed.alternate.text)}\n`);
+    }
+  }
+}
+
+/* ------------------------------------------------------------------------- */
+/*  AST helpers                                                              */
+/* ------------------------------------------------------------------------- */
+
+function getPropertyKeyName(propNode: JsonNode | undefined): string | undefined {
+  if (!propNode || propNode.type !== "property" || !propNode.children?.length) return;
+  const keyNode = propNode.children[0];
+  if (keyNode.type !== "string") return;
+  return String(keyNode.value);
+}
+
+/**
+ * For a string VALUE node, the field it belongs to ("ItemId": "..." or "RandomItemId": ["..."]).
+ */
+function getFieldForStringNode(node: JsonNode): string | undefined {
+  if (node.type !== "string") return;
+  const parent = node.parent;
+  if (!parent) return;
+
+  if (parent.type === "array") {
+    return getPropertyKeyName(parent.parent);
+  }
+
+  if (parent.type === "property" && parent.children?.[1] === node) {
+    return getPropertyKeyName(parent);
+  }
+
+  return;
+}
+
+function getQueryStringAtPosition(
+  document: vscode.TextDocument,
+  position: vscode.Position
+): { node: JsonNode; value: string; base: number; offset: number } | undefined {
+  const root = parseTree(document.getText());
+  if (!root) return;
+
+  const offset = document.offsetAt(position);
+  const node = findNodeAtOffset(root, offset);
+  if (!node || node.type !== "string") return;
+
+  const field = getFieldForStringNode(node);
+  if (!field || !ITEM_QUERY_FIELDS.has(field)) return;
+
+  return { node, value: String(node.value ?? ""), base: node.offset + 1, offset };
+}
+
+/* ------------------------------------------------------------------------- */
+/*  Completion                                                               */
+/* ------------------------------------------------------------------------- */
+
+function simpleCompletions(
+  values: string[],
+  kind: vscode.CompletionItemKind,
+  range: vscode.Range,
+  detail: (value: string) => string | undefined
+): vscode.CompletionItem[] {
+  return values.map((value, i) => {
+    const ci = new vscode.CompletionItem(value, kind);
+    ci.range = range;
+    ci.detail = detail(value);
+    ci.sortText = String(i).padStart(4, "0");
+    return ci;
+  });
+}
+
+function buildQueryCompletions(
+  context: vscode.ExtensionContext,
+  lookups: ItemLookup,
+  value: string,
+  cursor: number, // offset within value
+  toRange: (start: number, end: number) => vscode.Range
+): vscode.CompletionItem[] | vscode.CompletionList | undefined {
+  // Token under the cursor (may be empty)
+  let start = cursor;
+  while (start > 0 && !/\s/.test(value[start - 1])) start--;
+  let end = cursor;
+  while (end < value.length && !/\s/.test(value[end])) end++;
+  const current = value.slice(start, end);
+  const range = toRange(start, end);
+
+  // First token: query names
+  if (!value.slice(0, start).trim()) {
+    if (!/^[A-Z_]*$/.test(current)) return;
+    return Object.entries(ITEM_QUERIES).map(([name, def]) => {
+      const ci = new vscode.CompletionItem(name, vscode.CompletionItemKind.Function);
+      ci.range = range;
+      ci.detail = "Item query";
+      ci.documentation = new vscode.MarkdownString(
+        `${def.description}\n\n\`${[name, ...def.args.map((a) => (a.optional ? `[${a.name}]` : `<${a.name}>`))].join(" ")}\``
+      );
+      ci.insertText = def.args.length || def.filters || def.alternateQuery ? `${name} ` : name;
+      if (def.args.length || def.filters) {
+        ci.command = { command: "editor.action.triggerSuggest", title: "Suggest arguments" };
+      }
+      return ci;
+    });
+  }
+
+  const parsed = parseItemQuery(value.slice(0, start));
+  if (!parsed?.definition) return;
+  const definition = parsed.definition;
+
+  // Fallback query after LOST_BOOK_OR_ITEM / SECRET_NOTE_OR_ITEM
+  if (definition.alternateQuery) {
+    const restStart = parsed.nameToken.end;
+    return buildQueryCompletions(
+      context,
+      lookups,
+      value.slice(restStart),
+      cursor - restStart,
+      (s, e) => toRange(s + restStart, e + restStart)
+    );
+  }
+
+  const filterNames = Array.from(definition.filters ?? []);
+  const lastFilter = parsed.filters[parsed.filters.length - 1];
+
+  if (current.startsWith("@") || (lastFilter && FLAG_FILTERS.has(lastFilter.name))) {
+    return simpleCompletions(filterNames, vscode.CompletionItemKind.Keyword, range, (f) => FILTER_DESCRIPTIONS[f]);
+  }
+
+  if (lastFilter) {
+    const filterItems = (values: string[], detail: (v: string) => string | undefined) => [
+      ...simpleCompletions(values, vscode.CompletionItemKind.EnumMember, range, detail),
+      ...simpleCompletions(filterNames, vscode.CompletionItemKind.Keyword, range, (f) => FILTER_DESCRIPTIONS[f]).map(
+        (ci) => ((ci.sortText = `z${ci.sortText}`), ci)
+      ),
+    ];
+
+    switch (lastFilter.name) {
+      case "@has_category":
+        return filterItems(
+          Object.keys(ITEM_CATEGORIES).sort((a, b) => Number(b) - Number(a)),
+          (v) => ITEM_CATEGORIES[Number(v)]?.label
+        );
+      case "@has_object_type":
+        return filterItems(OBJECT_TYPES, () => "Object type");
+      case "@has_context_tag": {
+        const index = getContextTagIndex(context, lookups);
+        const prefix = current.replace(/^!/, "").toLowerCase();
+        const tags = Array.from(index.knownTags)
+          .filter((t) => t.startsWith(prefix))
+          .sort()
+          .slice(0, 200);
+        return filterItems(tags, (t) => `Context tag (${index.byTag.get(t)?.length ?? 0} items)`);
+      }
+      default:
+        return;
+    }
+  }
+
+  const arg = definition.args[parsed.args.length];
+  if (!arg) {
+    return filterNames.length
+      ? simpleCompletions(filterNames, vscode.CompletionItemKind.Keyword, range, (f) => FILTER_DESCRIPTIONS[f])
+      : undefined;
+  }
+
+  switch (arg.kind) {
+    case "flavor":
+      return simpleCompletions(FLAVOR_TYPES, vscode.CompletionItemKind.EnumMember, range, () => "Flavor type");
+    case "typeDefinition":
+      return simpleCompletions(
+        buildSharedItemCompletionState(lookups).categoryCodes.map((c) => `(${c})`),
+        vscode.CompletionItemKind.Enum,
+        range,
+        () => "Item type definition"
+      );
+    case "itemId":
+    case "toolId": {
+      const state = buildSharedItemCompletionState(lookups);
+      const { matches, truncated } = searchItems(state.search, current, {
+        categoryFilter: arg.kind === "toolId" ? "T" : null,
+        limit: 100,
+      });
+      const items = matches.map(({ entry, rank, fuzzy }, i) => {
+        const ci = new vscode.CompletionItem(
+          `${entry.qualifiedId} — ${formatItemDisplayName(entry)}`,
+          vscode.CompletionItemKind.Value
+        );
+        ci.insertText = entry.qualifiedId;
+        ci.range = range;
+        ci.filterText = fuzzy ? `${current} ${entry.name}` : `${entry.name} ${entry.id} ${entry.qualifiedId}`;
+        ci.sortText = `${rank}_${String(i).padStart(4, "0")}`;
+        ci.detail = `[${entry.category}] ${arg.name}`;
+        return ci;
+      });
+      return new vscode.CompletionList(items, truncated);
+    }
+    default:
+      return;
+  }
+}
+
+/* ------------------------------------------------------------------------- */
+/*  Diagnostics                                                              */
+/* ------------------------------------------------------------------------- */
+
+function collectItemQueryDiagnostics(
+  document: vscode.TextDocument,
+  lookups: ItemLookup,
+  isKnownContextTag: (tag: string) => boolean
+): vscode.Diagnostic[] {
+  const root = parseTree(document.getText());
+  if (!root) return [];
+
+  const diagnostics: vscode.Diagnostic[] = [];
+
+  const checkStringNode = (node: JsonNode) => {
+    const value = String(node.value ?? "");
+    const parsed = parseItemQuery(value, node.offset + 1);
+    if (!parsed) return;
+
+    // A real item whose ID happens to look like a query name
+    if (!parsed.definition && resolveItemRef(lookups, value)) return;
+
+    for (const p of validateItemQuery(parsed, lookups, isKnownContextTag)) {
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(document.positionAt(p.start), document.positionAt(p.end)),
+        p.message,
+        p.severity === "error" ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+      );
+      diagnostic.source = "Stardew Modding Schema";
+      diagnostics.push(diagnostic);
+    }
+  };
+
+  const walk = (node: JsonNode) => {
+    if (node.type === "property") {
+      const key = getPropertyKeyName(node);
+      const value = node.children?.[1];
+      if (key && ITEM_QUERY_FIELDS.has(key) && value) {
+        if (value.type === "string") checkStringNode(value);
+        if (value.type === "array") {
+          for (const child of value.children ?? []) {
+            if (child.type === "string") checkStringNode(child);
+          }
+        }
+      }
+    }
+    for (const child of node.children ?? []) walk(child);
+  };
+
+  walk(root);
+  return diagnostics;
+}
+
+/* ------------------------------------------------------------------------- */
+/*  Registration                                                             */
+/* ------------------------------------------------------------------------- */
+
+export function registerItemQuerySupport(
+  context: vscode.ExtensionContext,
+  registry: ItemRegistry
+): vscode.Disposable {
+  const disposables: vscode.Disposable[] = [];
+
+  const selector: vscode.DocumentSelector = [
+    { pattern: "**/*.json" },
+    { pattern: "**/*.jsonc" },
+  ];
+
+  const knownTagChecker = (lookups: ItemLookup) => {
+    const index = getContextTagIndex(context, lookups);
+    return (tag: string) => hasCpToken(tag) || isKnownTag(index, tag);
+  };
+
+  // Completion
+  disposables.push(
+    vscode.languages.registerCompletionItemProvider(
+      selector,
+      {
+        provideCompletionItems(document, position) {
+          const hit = getQueryStringAtPosition(document, position);
+          if (!hit) return;
+
+          const cursor = Math.max(0, Math.min(hit.value.length, hit.offset - hit.base));
+          return buildQueryCompletions(context, registry.lookup, hit.value, cursor, (s, e) =>
+            new vscode.Range(document.positionAt(hit.base + s), document.positionAt(hit.base + e))
+          );
+        },
+      },
+      " ",
+      "@",
+      "(",
+      '"'
+    )
+  );
+
+  // Hover
+  disposables.push(
+    vscode.languages.registerHoverProvider(selector, {
+      provideHover(document, position) {
+        try {
+          const hit = getQueryStringAtPosition(document, position);
+          if (!hit) return;
+
+          const parsed = parseItemQuery(hit.value, hit.base);
+          if (!parsed) return;
+
+          const lookups = registry.lookup;
+          const md = new vscode.MarkdownString();
+          appendQueryMarkdown(md, parsed, lookups, getContextTagIndex(context, lookups));
+          md.isTrusted = false;
+
+          const range = new vscode.Range(
+            document.positionAt(hit.base),
+            document.positionAt(hit.base + hit.value.length)
+          );
+          return new vscode.Hover(md, range);
+        } catch {
+          return;
+        }
+      },
+    })
+  );
+
+  // Diagnostics
+  const diagnostics = vscode.languages.createDiagnosticCollection("stardew-item-queries");
+  disposables.push(diagnostics);
+
+  const update = (doc: vscode.TextDocument) => {
+    const config = vscode.workspace.getConfiguration("stardewModdingSchema");
+    if (
+      (doc.languageId !== "json" && doc.languageId !== "jsonc") ||
+      config.get<boolean>("validateItemQueries") === false
+    ) {
+      diagnostics.delete(doc.uri);
+      return;
+    }
+    const lookups = registry.lookup;
+    diagnostics.set(doc.uri, collectItemQueryDiagnostics(doc, lookups, knownTagChecker(lookups)));
+  };
+
+  vscode.workspace.textDocuments.forEach(update);
+  disposables.push(
+    vscode.workspace.onDidOpenTextDocument(update),
+    vscode.workspace.onDidChangeTextDocument((e) => update(e.document)),
+    vscode.workspace.onDidCloseTextDocument((doc) => diagnostics.delete(doc.uri)),
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("stardewModdingSchema.validateItemQueries")) {
+        vscode.workspace.textDocuments.forEach(update);
+      }
+    }),
+    updateDocumentsOnRegistryChange(registry, update)
+  );
+
+  return vscode.Disposable.from(...disposables);
+}
@@ -0,0 +1,134 @@
+// src/itemRegistry.ts
+import * as vscode from "vscode";
+import { ItemLookup, loadStardewIds, withWorkspaceItems } from "./stardewIds";
+
+const liveRegistries = new Set<ItemRegistry>();
+
+/**
+ * Live view of the item lookups (vanilla + custom + installed, plus the items of the
+ * mods open in the workspace).
+ *
+ * Providers read `registry.lookup` on every request instead of capturing the maps at
+ * registration, so a reload swaps in new data without a window reload. The swap is a
+ * single reference assignment: a request sees either the old or the new snapshot,
+ * never a mix. Derived state (completion lists, tag index, ...) is built from a
+ * snapshot on first use and memoized per snapshot, not rebuilt on every change.
+ */
+export class ItemRegistry implements vscode.Disposable {
+  private base: ItemLookup; // loaded from the item sources on disk
+  private workspaceItems: any = null; // stardew-ids-style JSON from workspaceIndex.ts
+  private snapshot: ItemLookup;
+  private readonly changeEmitter = new vscode.EventEmitter<ItemLookup>();
+
+  /** Fires with the new snapshot after a reload. */
+  public readonly onDidChange = this.changeEmitter.event;
+
+  constructor(
+    private readonly context: vscode.ExtensionContext,
+    initial: ItemLookup
+  ) {
+    this.base = initial;
+    this.snapshot = initial;
+    liveRegistries.add(this);
+  }
+
+  public get lookup(): ItemLookup {
+    return this.snapshot;
+  }
+
+  /** The item sources on disk alone, without the workspace items. */
+  public get baseLookup(): ItemLookup {
+    return this.base;
+  }
+
+  /**
+   * Re-read all item sources. Keeps the current snapshot if the vanilla catalog
+   * can't be loaded.
+   */
+  public reload(reason: string): boolean {
+    const next = loadStardewIds(this.context);
+    if (!next) {
+      console.warn(
+        `[Stardew Modding Schema] Item registry reload (${reason}) failed; keeping previous items.`
+      );
+      return false;
+    }
+
+    this.base = next;
+    this.snapshot = withWorkspaceItems(next, this.workspaceItems);
+    console.log(`[Stardew Modding Schema] Item registry reloaded: ${reason}`);
+    this.changeEmitter.fire(this.snapshot);
+    return true;
+  }
+
+  /**
+   * Replace the live workspace items (null clears them) without re-reading the
+   * item sources on disk.
+   */
+  public setWorkspaceItems(json: any): void {
+    this.workspaceItems = json;
+    this.snapshot = withWorkspaceItems(this.base, json);
+    this.changeEmitter.fire(this.snapshot);
+  }
+
+  public dispose(): void {
+    liveRegistries.delete(this);
+    this.changeEmitter.dispose();
+  }
+}
+
+/**
+ * Load the item sources and wrap them in a registry, or null when the vanilla
+ * catalog is missing (item features disabled).
+ */
+export function createItemRegistry(context: vscode.ExtensionContext): ItemRegistry | null {
+  const initial = loadStardewIds(context);
+  if (!initial) return null;
+
+  const registry = new ItemRegistry(context, initial);
+  context.subscriptions.push(registry);
+  return registry;
+}
+
+/**
+ * Re-run `update` (a document's diagnostics) after the registry changes: right away for
+ * the documents shown in an editor, and for other open documents once they're shown,
+ * so a change doesn't re-diagnose (and build indexes for) every open file.
+ */
+export function updateDocumentsOnRegistryChange(
+  registry: ItemRegistry,
+  update: (doc: vscode.TextDocument) => void
+): vscode.Disposable {
+  const stale = new Set<vscode.TextDocument>();
+
+  return vscode.Disposable.from(
+    registry.onDidChange(() => {
+      const visible = new Set(vscode.window.visibleTextEditors.map((editor) => editor.document));
+      for (const doc of vscode.workspace.textDocuments) {
+        if (visible.has(doc)) {
+          stale.delete(doc);
+          update(doc);
+        } else {
+          stale.add(doc);
+        }
+      }
+    }),
+    vscode.window.onDidChangeVisibleTextEditors((editors) => {
+      for (const { document } of editors) {
+        if (stale.delete(document)) update(document);
+      }
+    }),
+    vscode.workspace.onDidChangeTextDocument((e) => stale.delete(e.document)),
+    vscode.workspace.onDidCloseTextDocument((doc) => stale.delete(doc))
+  );
+}
+
+/**
+ * Tell every live registry that an item source changed (installed index rebuilt,
+ * vanilla catalog regenerated, display language switched, ...).
+ */
+export function reloadItemRegistries(reason: string): void {
+  for (const registry of liveRegistries) {
+    registry.reload(reason);
+  }
+}
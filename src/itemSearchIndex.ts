@@ -0,0 +1,297 @@
+// src/itemSearchIndex.ts
+import { ItemEntry } from "./stardewIds";
+import { getItemDisplayNames } from "./localization";
+
+/**
+ * In-memory search index behind Stage B item completion.
+ *
+ *  - trigram posting lists over names (English + localized) and bare IDs,
+ *    for substring matches on queries of 3+ characters
+ *  - 1/2-character word-prefix posting lists for very short queries
+ *  - typo-tolerant fallback: items sharing enough trigrams with the query are
+ *    re-checked with an approximate substring edit distance
+ *
+ * Posting lists hold positions into `items`, which is already in display order,
+ * so "first N matches" stays stable without re-sorting the whole catalog.
+ */
+export interface ItemSearchIndex {
+  items: ItemEntry[];
+  names: string[][]; // lowercased display names per item
+  ids: string[]; // lowercased bare IDs per item
+  prefixes: string[]; // category prefix per item ("O", "BC", ...)
+  trigrams: Map<string, number[]>;
+  shortPrefixes: Map<string, number[]>;
+  byCategory: Map<string, number[]>;
+}
+
+export interface ItemSearchMatch {
+  entry: ItemEntry;
+  /**
+   * 0 name word prefix / exact ID, 1 name substring, 2 ID substring,
+   * 4 one typo, 5 two typos.
+   */
+  rank: number;
+  fuzzy: boolean;
+}
+
+export interface ItemSearchResult {
+  matches: ItemSearchMatch[];
+  truncated: boolean; // more matches exist than were returned
+}
+
+// Upper bound on items checked with the edit distance per query
+const MAX_FUZZY_CANDIDATES = 2000;
+
+// Typo tolerance by query length (shorter queries are matched exactly only)
+function maxTyposFor(length: number): number {
+  if (length < 4) return 0;
+  if (length < 6) return 1;
+  return 2;
+}
+
+function splitWords(text: string): string[] {
+  return text.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+function addPosting(map: Map<string, number[]>, key: string, position: number): void {
+  const list = map.get(key);
+  if (!list) {
+    map.set(key, [position]);
+  } else if (list[list.length - 1] !== position) {
+    list.push(position);
+  }
+}
+
+function trigramsOf(text: string): string[] {
+  const out: string[] = [];
+  for (let i = 0; i + 3 <= text.length; i++) {
+    out.push(text.slice(i, i + 3));
+  }
+  return out;
+}
+
+export function buildItemSearchIndex(items: ItemEntry[]): ItemSearchIndex {
+  const index: ItemSearchIndex = {
+    items,
+    names: [],
+    ids: [],
+    prefixes: [],
+    trigrams: new Map(),
+    shortPrefixes: new Map(),
+    byCategory: new Map(),
+  };
+
+  items.forEach((entry, position) => {
+    const names = getItemDisplayNames(entry).map((n) => n.toLowerCase());
+    const id = entry.id.toLowerCase();
+    const prefix = /^\(([A-Za-z]+)\)/.exec(entry.qualifiedId)?.[1] ?? "";
+
+    index.names.push(names);
+    index.ids.push(id);
+    index.prefixes.push(prefix);
+    addPosting(index.byCategory, prefix, position);
+
+    for (const term of [...names, id]) {
+      for (const gram of trigramsOf(term)) {
+        addPosting(index.trigrams, gram, position);
+      }
+      for (const word of [term, ...splitWords(term)]) {
+        addPosting(index.shortPrefixes, word.slice(0, 1), position);
+        if (word.length >= 2) addPosting(index.shortPrefixes, word.slice(0, 2), position);
+      }
+    }
+  });
+
+  return index;
+}
+
+/**
+ * Intersect ascending posting lists (smallest first).
+ */
+function intersectPostings(lists: number[][]): number[] {
+  if (lists.length === 0) return [];
+  const sorted = [...lists].sort((a, b) => a.length - b.length);
+  let result = sorted[0];
+
+  for (let k = 1; k < sorted.length && result.length > 0; k++) {
+    const other = sorted[k];
+    const next: number[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < result.length && j < other.length) {
+      if (result[i] === other[j]) {
+        next.push(result[i]);
+        i++;
+        j++;
+      } else if (result[i] < other[j]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+    result = next;
+  }
+
+  return result;
+}
+
+function isWordPrefixMatch(name: string, query: string): boolean {
+  for (let at = name.indexOf(query); at >= 0; at = name.indexOf(query, at + 1)) {
+    if (at === 0 || !/[\p{L}\p{N}]/u.test(name[at - 1])) return true;
+  }
+  return false;
+}
+
+/**
+ * Exact (non-fuzzy) rank, or -1 when the item doesn't contain the query.
+ */
+function exactRank(index: ItemSearchIndex, position: number, query: string): number {
+  const id = index.ids[position];
+  if (id === query) return 0;
+
+  let best = -1;
+  for (const name of index.names[position]) {
+    if (isWordPrefixMatch(name, query)) return 0;
+    if (name.includes(query)) best = 1;
+  }
+  if (best >= 0) return best;
+
+  return id.includes(query) ? 2 : -1;
+}
+
+/**
+ * Smallest edit distance between the query and any substring of text
+ * (Sellers' algorithm; free start and end in text).
+ */
+function approximateSubstringDistance(query: string, text: string, limit: number): number {
+  const m = query.length;
+  let prev = new Array<number>(m + 1);
+  let curr = new Array<number>(m + 1);
+  for (let i = 0; i <= m; i++) prev[i] = i;
+
+  let best = prev[m];
+  for (let j = 1; j <= text.length; j++) {
+    curr[0] = 0;
+    for (let i = 1; i <= m; i++) {
+      const cost = query[i - 1] === text[j - 1] ? 0 : 1;
+      curr[i] = Math.min(prev[i - 1] + cost, prev[i] + 1, curr[i - 1] + 1);
+    }
+    if (curr[m] < best) best = curr[m];
+    if (best === 0) return 0;
+    [prev, curr] = [curr, prev];
+  }
+
+  return best <= limit ? best : limit + 1;
+}
+
+function fuzzyCandidates(
+  index: ItemSearchIndex,
+  query: string,
+  maxTypos: number,
+  accept: (position: number) => boolean
+): number[] {
+  const grams = Array.from(new Set(trigramsOf(query)));
+  // One edit changes at most 3 trigrams (q-gram lemma)
+  const minShared = Math.max(1, grams.length - 3 * maxTypos);
+
+  const counts = new Uint8Array(index.items.length);
+  const touched: number[] = [];
+  for (const gram of grams) {
+    for (const position of index.trigrams.get(gram) ?? []) {
+      if (counts[position] === 0) touched.push(position);
+      if (counts[position] < 255) counts[position]++;
+    }
+  }
+
+  const out = touched.filter((p) => counts[p] >= minShared && accept(p));
+  // Most shared trigrams first; only the best candidates get the (slower) edit distance check
+  out.sort((a, b) => counts[b] - counts[a] || a - b);
+  return out.slice(0, MAX_FUZZY_CANDIDATES);
+}
+
+/**
+ * Search the index. Results are ordered by rank, then by catalog order, and capped
+ * at `limit`; `truncated` tells the caller to mark its completion list incomplete.
+ */
+export function searchItems(
+  index: ItemSearchIndex,
+  rawQuery: string,
+  options: { categoryFilter?: string | null; limit: number }
+): ItemSearchResult {
+  const query = rawQuery.trim().toLowerCase();
+  const { categoryFilter, limit } = options;
+  const inCategory = (position: number) =>
+    !categoryFilter || index.prefixes[position] === categoryFilter;
+
+  // No search text: first items of the category in catalog order
+  if (!query) {
+    const positions = categoryFilter
+      ? index.byCategory.get(categoryFilter) ?? []
+      : index.items.map((_e, i) => i);
+    return {
+      matches: positions
+        .slice(0, limit)
+        .map((p) => ({ entry: index.items[p], rank: 0, fuzzy: false })),
+      truncated: positions.length > limit,
+    };
+  }
+
+  let candidates: number[];
+  if (query.length < 3) {
+    candidates = index.shortPrefixes.get(query) ?? [];
+  } else {
+    // Every trigram of the query must occur in the item; one unknown trigram means no exact match
+    const lists = Array.from(new Set(trigramsOf(query)), (gram) => index.trigrams.get(gram));
+    candidates = lists.every((l) => l !== undefined) ? intersectPostings(lists as number[][]) : [];
+  }
+
+  const exactByRank: number[][] = [[], [], []];
+  const matched = new Set<number>();
+  let stoppedEarly = false;
+  for (const position of candidates) {
+    if (!inCategory(position)) continue;
+    const rank = exactRank(index, position, query);
+    if (rank < 0) continue;
+    exactByRank[rank].push(position);
+    matched.add(position);
+
+    // Enough best-ranked matches: nothing later can make the cut
+    if (exactByRank[0].length >= limit) {
+      stoppedEarly = true;
+      break;
+    }
+  }
+
+  const matches: ItemSearchMatch[] = [];
+  let total = stoppedEarly ? Infinity : 0;
+  exactByRank.forEach((positions, rank) => {
+    total += positions.length;
+    for (const p of positions) {
+      if (matches.length >= limit) return;
+      matches.push({ entry: index.items[p], rank, fuzzy: false });
+    }
+  });
+
+  const maxTypos = maxTyposFor(query.length);
+  if (matches.length < limit && maxTypos > 0) {
+    const fuzzy: { position: number; distance: number }[] = [];
+    const accept = (position: number) => inCategory(position) && !matched.has(position);
+    for (const position of fuzzyCandidates(index, query, maxTypos, accept)) {
+      let distance = maxTypos + 1;
+      for (const term of [...index.names[position], index.ids[position]]) {
+        distance = Math.min(distance, approximateSubstringDistance(query, term, maxTypos));
+        if (distance === 1) break;
+      }
+      if (distance <= maxTypos) fuzzy.push({ position, distance });
+    }
+
+    fuzzy.sort((a, b) => a.distance - b.distance || a.position - b.position);
+    total += fuzzy.length;
+    for (const f of fuzzy) {
+      if (matches.length >= limit) break;
+      matches.push({ entry: index.items[f.position], rank: 3 + f.distance, fuzzy: true });
+    }
+  }
+
+  return { matches, truncated: total > matches.length };
+}
@@ -0,0 +1,176 @@
+// src/localization.ts
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { parse, ParseError } from "jsonc-parser";
+import type { ItemEntry, ItemLookup } from "./stardewIds";
+import { findContentRoot, LocalizedStrings, readVanillaNameKeys } from "./vanillaCatalog";
+
+/**
+ * Installed index "mods" section: UniqueID → manifest name + folder.
+ */
+export type InstalledModFolders = Record<string, { name?: string; folder?: string }>;
+
+/**
+ * Game locale code from `stardewModdingSchema.displayLanguage` ("" = English).
+ */
+export function getDisplayLanguage(): string {
+  const config = vscode.workspace.getConfiguration("stardewModdingSchema");
+  return (config.get<string>("displayLanguage") ?? "").trim();
+}
+
+/**
+ * Names a label should show: the localized name first, then the English one if different.
+ */
+export function getItemDisplayNames(entry: ItemEntry): string[] {
+  if (entry.localizedName && entry.localizedName !== entry.name) {
+    return [entry.localizedName, entry.name];
+  }
+  return [entry.name];
+}
+
+/**
+ * "Unkraut (Weeds)" when localized, otherwise just the English name.
+ */
+export function formatItemDisplayName(entry: ItemEntry): string {
+  const names = getItemDisplayNames(entry);
+  return names.length > 1 ? `${names[0]} (${names[1]})` : names[0];
+}
+
+function readJsonObject(fullPath: string): Record<string, any> | null {
+  try {
+    const errors: ParseError[] = [];
+    const json = parse(fs.readFileSync(fullPath, "utf8"), errors, {
+      allowTrailingComma: true,
+    }) as any;
+    return json && typeof json === "object" && !Array.isArray(json) ? json : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * SMAPI translations for one locale: i18n/<locale>.json or i18n/<locale>/*.json.
+ * SMAPI uses the language part ("de") while the game uses "de-DE"; both are accepted.
+ */
+function loadModTranslations(modDir: string, locale: string): Map<string, string> {
+  const map = new Map<string, string>();
+  const i18nRoot = path.join(modDir, "i18n");
+
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(i18nRoot, { withFileTypes: true });
+  } catch {
+    return map;
+  }
+
+  const wanted = new Set([locale.toLowerCase(), locale.split("-")[0].toLowerCase()]);
+
+  const loadFile = (fullPath: string) => {
+    const json = readJsonObject(fullPath);
+    if (!json) return;
+    for (const [key, value] of Object.entries(json)) {
+      if (typeof value === "string") map.set(key, value);
+    }
+  };
+
+  for (const entry of entries) {
+    const baseName = entry.name.toLowerCase().replace(/\.jsonc?$/, "");
+    if (!wanted.has(baseName)) continue;
+
+    const fullPath = path.join(i18nRoot, entry.name);
+    if (entry.isFile() && baseName !== entry.name.toLowerCase()) {
+      loadFile(fullPath);
+    } else if (entry.isDirectory()) {
+      try {
+        for (const file of fs.readdirSync(fullPath)) {
+          if (/\.jsonc?$/i.test(file)) loadFile(path.join(fullPath, file));
+        }
+      } catch {
+        // ignore unreadable locale folder
+      }
+    }
+  }
+
+  return map;
+}
+
+function resolveI18nTokens(text: string, translations: Map<string, string>): string | undefined {
+  let missing = false;
+  const resolved = text.replace(/\{\{\s*i18n\s*:\s*([^{}|]+?)\s*(?:\|[^{}]*)?}}/gi, (_m, key) => {
+    const value = translations.get(String(key).trim());
+    if (value === undefined || !value.trim()) {
+      missing = true;
+      return _m;
+    }
+    return value.trim();
+  });
+  return missing ? undefined : resolved.replace(/\s+/g, " ").trim();
+}
+
+function addNameToLookup(lookup: ItemLookup, entry: ItemEntry, name: string): void {
+  const key = name.toLowerCase();
+  const list = lookup.byName.get(key) ?? [];
+  if (!list.includes(entry)) list.push(entry);
+  lookup.byName.set(key, list);
+}
+
+/**
+ * Fill ItemEntry.localizedName for the configured display language and index those names
+ * in byName next to the English ones.
+ *  - vanilla: `[LocalizedText ...]` keys resolved against unpacked Strings/*.<locale>.json
+ *    (needs `stardewModdingSchema.unpackedContentPath`)
+ *  - installed and workspace: `{{i18n:...}}` keys resolved against the mod's
+ *    i18n/<locale>.json (`mods` gives each mod's folder)
+ * Names that can't be resolved keep the English name only.
+ */
+export function applyDisplayLanguage(
+  lookup: ItemLookup,
+  mods: InstalledModFolders | undefined
+): void {
+  const locale = getDisplayLanguage();
+  if (!locale) return;
+
+  const config = vscode.workspace.getConfiguration("stardewModdingSchema");
+  const contentRoot = findContentRoot((config.get<string>("unpackedContentPath") ?? "").trim());
+
+  const strings = contentRoot ? new LocalizedStrings(contentRoot, locale) : undefined;
+  let vanillaKeys: Map<string, string> | undefined;
+  const modTranslations = new Map<string, Map<string, string>>();
+
+  let localized = 0;
+  for (const entry of lookup.byQualifiedId.values()) {
+    let name: string | undefined;
+
+    if (entry.source === "vanilla" && strings && contentRoot) {
+      let key = entry.nameKey;
+      if (!key) {
+        // Catalogs generated before nameKey was recorded: read the key from Data
+        vanillaKeys ??= readVanillaNameKeys(contentRoot);
+        key = vanillaKeys.get(entry.qualifiedId);
+      }
+      if (key) {
+        const resolved = strings.resolve(key);
+        if (resolved && !/\[\s*LocalizedText\s/i.test(resolved)) name = resolved;
+      }
+    } else if ((entry.source === "installed" || entry.source === "workspace") && entry.nameKey) {
+      const folder = mods?.[entry.modId]?.folder;
+      if (folder) {
+        let translations = modTranslations.get(folder);
+        if (!translations) {
+          translations = loadModTranslations(folder, locale);
+          modTranslations.set(folder, translations);
+        }
+        if (translations.size > 0) name = resolveI18nTokens(entry.nameKey, translations);
+      }
+    }
+
+    if (name && name !== entry.name) {
+      entry.localizedName = name;
+      addNameToLookup(lookup, entry, name);
+      localized++;
+    }
+  }
+
+  console.log(`[Stardew Modding Schema] Localized ${localized} item names (${locale}).`);
+}
@@ -0,0 +1,98 @@
+// src/modsRoots.ts
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+
+function dirExists(p: string): boolean {
+  try {
+    return fs.existsSync(p) && fs.statSync(p).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+// How far below a workspace folder a manifest.json makes it a mods root
+const WORKSPACE_MANIFEST_DEPTH = 2;
+
+/**
+ * Whether `dir` or a folder up to `depth` levels below it has a manifest.json
+ * (dot folders and node_modules skipped, as in the scan).
+ */
+function containsModManifest(dir: string, depth: number): boolean {
+  if (fs.existsSync(path.join(dir, "manifest.json"))) return true;
+  if (depth <= 0) return false;
+
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return false;
+  }
+  return entries.some(
+    (entry) =>
+      entry.isDirectory() &&
+      !entry.name.startsWith(".") &&
+      entry.name !== "node_modules" &&
+      containsModManifest(path.join(dir, entry.name), depth - 1)
+  );
+}
+
+/**
+ * Whether a file belongs to a mod: a folder between it and `root` (or `root` itself)
+ * has a manifest.json. Lets watchers skip package.json, tsconfig.json and the like.
+ */
+export function isInModFolder(root: string, filePath: string): boolean {
+  const relative = path.relative(root, filePath);
+  if (relative.startsWith("..") || path.isAbsolute(relative)) return false;
+
+  let dir = path.dirname(filePath);
+  for (;;) {
+    if (fs.existsSync(path.join(dir, "manifest.json"))) return true;
+    if (path.relative(root, dir) === "") return false;
+    dir = path.dirname(dir);
+  }
+}
+
+/**
+ * Every folder the installed indexer scans and watches, highest precedence first:
+ *  1. the workspace folders with a mod in them (a manifest.json at most two levels
+ *     down; unless stardewModdingSchema.indexWorkspaceFolders is off), so a mod being
+ *     edited wins over an installed copy of itself
+ *  2. stardewModdingSchema.additionalModsRoots, in the order listed
+ *  3. stardewModdingSchema.modsRoot (the game's Mods folder)
+ *
+ * When two roots contain a mod with the same UniqueID, only the copy in the
+ * earlier root is indexed. Missing folders and repeats are dropped.
+ */
+export function getModsRoots(modsRootOverride?: string): string[] {
+  const config = vscode.workspace.getConfiguration("stardewModdingSchema");
+
+  const candidates: string[] = [];
+  if (config.get<boolean>("indexWorkspaceFolders") !== false) {
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      if (folder.uri.scheme !== "file") continue;
+      if (containsModManifest(folder.uri.fsPath, WORKSPACE_MANIFEST_DEPTH)) {
+        candidates.push(folder.uri.fsPath);
+      }
+    }
+  }
+  for (const root of config.get<string[]>("additionalModsRoots") ?? []) {
+    if (typeof root === "string") candidates.push(root);
+  }
+  candidates.push(modsRootOverride ?? config.get<string>("modsRoot") ?? "");
+
+  const seen = new Set<string>();
+  const roots: string[] = [];
+  for (const raw of candidates) {
+    const trimmed = raw.trim();
+    if (!trimmed) continue;
+
+    const root = path.resolve(trimmed);
+    const key = process.platform === "win32" ? root.toLowerCase() : root;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    if (dirExists(root)) roots.push(root);
+  }
+  return roots;
+}
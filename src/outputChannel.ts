@@ -0,0 +1,20 @@
+// src/outputChannel.ts
+import * as vscode from "vscode";
+
+let channel: vscode.OutputChannel | undefined;
+
+/**
+ * Shared "Stardew Modding Schema" output channel for reports (catalog diffs etc.).
+ * Created lazily so activation doesn't add an empty channel.
+ */
+export function getOutputChannel(): vscode.OutputChannel {
+  if (!channel) {
+    channel = vscode.window.createOutputChannel("Stardew Modding Schema");
+  }
+  return channel;
+}
+
+export function disposeOutputChannel(): void {
+  channel?.dispose();
+  channel = undefined;
+}
@@ -0,0 +1,297 @@
+// src/packScanners.ts
+import * as fs from "fs";
+import * as path from "path";
+import { parse, ParseError } from "jsonc-parser";
+import type { InstalledItemMetadata } from "./installedScanner";
+
+/**
+ * Scanners for content pack formats that aren't Content Patcher `Changes`.
+ *
+ * Each scanner looks at one mod folder and returns the items it adds; the
+ * installed scanner merges them like EditData items. Like installedScanner.ts
+ * this runs in the worker thread, so no "vscode" imports.
+ */
+
+export interface PackScanContext {
+  modDir: string;
+  modId: string; // manifest.UniqueID
+  contentPackFor?: string; // manifest ContentPackFor.UniqueID
+  readName(raw: string): string; // resolves {{ModId}}, {{i18n:...}} and [LocalizedText ...]
+}
+
+export interface PackItem extends InstalledItemMetadata {
+  qualifiedId: string;
+  name: string;
+  textureFile?: string; // absolute PNG path with the item's sprite
+}
+
+export interface PackScanner {
+  name: string; // for logs, e.g. "Json Assets"
+  scan(context: PackScanContext): PackItem[];
+}
+
+function isObjectRecord(value: any): value is Record<string, any> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function readJsoncFile(fullPath: string): any | null {
+  try {
+    const text = fs.readFileSync(fullPath, "utf8");
+    const errors: ParseError[] = [];
+    return parse(text, errors, { allowTrailingComma: true }) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Child folder of `dir` whose name matches case-insensitively (packs are often
+ * authored on Windows), or null.
+ */
+function findChildFolder(dir: string, name: string): string | null {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return null;
+  }
+  const match = entries.find((e) => e.isDirectory() && e.name.toLowerCase() === name.toLowerCase());
+  return match ? path.join(dir, match.name) : null;
+}
+
+function isContentPackFor(context: PackScanContext, frameworkId: string): boolean {
+  return context.contentPackFor?.toLowerCase() === frameworkId.toLowerCase();
+}
+
+// -----------------------------------------------------------------------------
+// Json Assets
+// -----------------------------------------------------------------------------
+
+/**
+ * Json Assets category names → numeric object Category.
+ */
+const JSON_ASSETS_CATEGORIES: Record<string, number> = {
+  gem: -2,
+  fish: -4,
+  egg: -5,
+  milk: -6,
+  cooking: -7,
+  crafting: -8,
+  mineral: -12,
+  meat: -14,
+  metal: -15,
+  animalgoods: -18,
+  junk: -20,
+  artisangoods: -26,
+  syrup: -27,
+  monsterloot: -28,
+  seeds: -74,
+  vegetable: -75,
+  fruit: -79,
+  flower: -80,
+  greens: -81,
+  ring: -96,
+};
+
+/**
+ * Json Assets item folders: <Folder>/<item>/<file>, and what each adds. Crops and
+ * fruit trees add their seed/sapling object; the harvest is a separate Objects entry.
+ */
+const JSON_ASSETS_KINDS: {
+  folder: string;
+  file: string;
+  prefix: string;
+  nameField: string;
+  descriptionField: string;
+  priceField: string;
+  sprite?: string; // PNG next to the JSON, usable as a one-sprite sheet
+}[] = [
+  { folder: "Objects", file: "object.json", prefix: "O", nameField: "Name", descriptionField: "Description", priceField: "Price", sprite: "object.png" },
+  { folder: "BigCraftables", file: "big-craftable.json", prefix: "BC", nameField: "Name", descriptionField: "Description", priceField: "Price", sprite: "big-craftable.png" },
+  { folder: "Crops", file: "crop.json", prefix: "O", nameField: "SeedName", descriptionField: "SeedDescription", priceField: "SeedSellPrice", sprite: "seeds.png" },
+  { folder: "FruitTrees", file: "tree.json", prefix: "O", nameField: "SaplingName", descriptionField: "SaplingDescription", priceField: "SaplingPurchasePrice", sprite: "sapling.png" },
+  { folder: "Fences", file: "fence.json", prefix: "O", nameField: "Name", descriptionField: "Description", priceField: "Price", sprite: "object.png" },
+  { folder: "Hats", file: "hat.json", prefix: "H", nameField: "Name", descriptionField: "Description", priceField: "Price" },
+  { folder: "Weapons", file: "weapon.json", prefix: "W", nameField: "Name", descriptionField: "Description", priceField: "Price" },
+  { folder: "Shirts", file: "shirt.json", prefix: "S", nameField: "Name", descriptionField: "Description", priceField: "Price" },
+  { folder: "Pants", file: "pants.json", prefix: "P", nameField: "Name", descriptionField: "Description", priceField: "Price" },
+  { folder: "Boots", file: "boots.json", prefix: "B", nameField: "Name", descriptionField: "Description", priceField: "Price" },
+];
+
+/**
+ * Json Assets packs (ContentPackFor spacechase0.JsonAssets). Since Stardew 1.6 Json
+ * Assets registers each item under its `Name`, so that is both ID and display name.
+ */
+const jsonAssetsScanner: PackScanner = {
+  name: "Json Assets",
+  scan(context) {
+    if (!isContentPackFor(context, "spacechase0.JsonAssets")) return [];
+
+    const items: PackItem[] = [];
+    for (const kind of JSON_ASSETS_KINDS) {
+      const kindDir = findChildFolder(context.modDir, kind.folder);
+      if (!kindDir) continue;
+
+      let itemDirs: fs.Dirent[];
+      try {
+        itemDirs = fs.readdirSync(kindDir, { withFileTypes: true });
+      } catch {
+        continue;
+      }
+
+      for (const itemDir of itemDirs) {
+        if (!itemDir.isDirectory() || itemDir.name.startsWith(".")) continue;
+
+        const dir = path.join(kindDir, itemDir.name);
+        const json = readJsoncFile(path.join(dir, kind.file));
+        if (!isObjectRecord(json)) continue;
+
+        const id = optionalString(json[kind.nameField]);
+        if (!id) continue;
+
+        const item: PackItem = { qualifiedId: `(${kind.prefix})${id}`, name: id, internalName: id };
+        item.description = optionalString(json[kind.descriptionField]);
+        item.price = optionalNumber(json[kind.priceField]);
+
+        if (typeof json.TranslationKey === "string" && json.TranslationKey.trim()) {
+          item.nameKey = `{{i18n:${json.TranslationKey.trim()}.name}}`;
+        }
+
+        if (kind.folder === "Objects") {
+          const category = typeof json.Category === "string"
+            ? JSON_ASSETS_CATEGORIES[json.Category.toLowerCase()]
+            : optionalNumber(json.Category);
+          item.itemCategory = category;
+          item.edibility = optionalNumber(json.Edibility);
+          if (category === -7) item.type = "Cooking";
+          else if (category === -2 || category === -12) item.type = "Minerals";
+          else item.type = "Basic";
+        } else if (kind.folder === "Crops" || kind.folder === "FruitTrees") {
+          item.itemCategory = -74;
+          item.type = "Seeds";
+        }
+
+        if (Array.isArray(json.ContextTags)) {
+          const tags = json.ContextTags.filter((t: unknown): t is string => typeof t === "string" && !!t.trim());
+          if (tags.length > 0) item.contextTags = tags.map((t: string) => t.trim());
+        }
+
+        if (kind.sprite && fs.existsSync(path.join(dir, kind.sprite))) {
+          item.textureFile = path.join(dir, kind.sprite);
+          item.spriteIndex = 0;
+        }
+
+        for (const key of Object.keys(item) as (keyof PackItem)[]) {
+          if (item[key] === undefined) delete item[key];
+        }
+        items.push(item);
+      }
+    }
+    return items;
+  },
+};
+
+// -----------------------------------------------------------------------------
+// Furniture Framework
+// -----------------------------------------------------------------------------
+
+const MAX_FURNITURE_INCLUDE_DEPTH = 8;
+
+/**
+ * Variant names of a Furniture Framework field that is either a single value or a
+ * { variantName: value } dictionary. [""] when there are no variants.
+ */
+function furnitureVariantNames(value: unknown): string[] {
+  return isObjectRecord(value) && Object.keys(value).length > 0 ? Object.keys(value) : [""];
+}
+
+/**
+ * Furniture Framework packs: a content.json with a top-level `Furniture` object (what
+ * the meta-schema keys on), plus files pulled in through `Included`. Each furniture is
+ * `(F)<ModId>.<Key>`; dictionary `Source Image` / `Source Rect Offsets` values create
+ * one furniture per variant (`<Key>_<ImageVariant>_<RectVariant>`).
+ */
+const furnitureFrameworkScanner: PackScanner = {
+  name: "Furniture Framework",
+  scan(context) {
+    const items: PackItem[] = [];
+    const visited = new Set<string>();
+
+    const scanFile = (file: string, depth: number) => {
+      if (depth > MAX_FURNITURE_INCLUDE_DEPTH || visited.has(file)) return;
+      visited.add(file);
+
+      const json = readJsoncFile(file);
+      if (!isObjectRecord(json)) return;
+
+      if (isObjectRecord(json.Furniture)) {
+        for (const [key, data] of Object.entries(json.Furniture)) {
+          if (!isObjectRecord(data) || !key.trim()) continue;
+
+          for (const imageVariant of furnitureVariantNames(data["Source Image"])) {
+            for (const rectVariant of furnitureVariantNames(data["Source Rect Offsets"])) {
+              const id = [`${context.modId}.${key.trim()}`, imageVariant, rectVariant]
+                .filter(Boolean)
+                .join("_");
+              const rawName = optionalString(data["Display Name"]) ?? key.trim();
+              const name = context.readName(
+                rawName
+                  .replace(/\{\{\s*ImageVariant\s*\}\}/gi, imageVariant)
+                  .replace(/\{\{\s*RectVariant\s*\}\}/gi, rectVariant)
+              );
+
+              const item: PackItem = { qualifiedId: `(F)${id}`, name: name || id };
+              if (/\{\{\s*i18n\s*:/i.test(rawName)) item.nameKey = rawName;
+              const price = optionalNumber(data.Price);
+              if (price !== undefined) item.price = price;
+              const type = optionalString(data["Force Type"]) ?? optionalString(data.Type);
+              if (type) item.type = type;
+              const description = optionalString(data.Description);
+              if (description) item.description = context.readName(description);
+              items.push(item);
+            }
+          }
+        }
+      }
+
+      // "Included": { name: "path.json" | { Path: "path.json", ... } }
+      if (isObjectRecord(json.Included)) {
+        for (const included of Object.values(json.Included)) {
+          const rel = typeof included === "string" ? included : optionalString(included?.Path);
+          if (rel) scanFile(path.resolve(context.modDir, rel), depth + 1);
+        }
+      }
+    };
+
+    const contentJson = readJsoncFile(path.join(context.modDir, "content.json"));
+    const isFurniturePack =
+      isContentPackFor(context, "leroymilo.FurnitureFramework") ||
+      (isObjectRecord(contentJson) && isObjectRecord(contentJson.Furniture));
+    if (!isFurniturePack) return [];
+
+    scanFile(path.join(context.modDir, "content.json"), 0);
+    return items;
+  },
+};
+
+/**
+ * Every pack scanner, run for each mod folder after its Content Patcher files.
+ * Add new formats here.
+ */
+export const PACK_SCANNERS: PackScanner[] = [jsonAssetsScanner, furnitureFrameworkScanner];
+
+/**
+ * Lowercased file names of the sprites pack scanners look for; whether they exist is
+ * part of the scan result, so mod fingerprints include them.
+ */
+export const PACK_SPRITE_FILES = new Set<string>(
+  JSON_ASSETS_KINDS.flatMap((kind) => (kind.sprite ? [kind.sprite.toLowerCase()] : []))
+);
@@ -2,6 +2,7 @@
 import * as vscode from "vscode";
 import { parseTree, findNodeAtOffset } from "jsonc-parser";
 import { ItemEntry, ItemLookup } from "./stardewIds";
+import { ItemRegistry } from "./itemRegistry";
 import {
   buildSharedItemCompletionState,
   buildItemIdCompletionsForToken,
@@ -644,7 +645,7 @@ function attachTrailingCommaIfNeeded(
 
 export function registerRecipeCompletionSupport(
   context: vscode.ExtensionContext,
-  lookups: ItemLookup
+  registry: ItemRegistry
 ): vscode.Disposable {
   // Must match itemCompletion’s chaining command name
   const triggerSuggestCmd = "stardewModdingSchema.triggerSuggestAfterInsert";
@@ -668,14 +669,13 @@ export function registerRecipeCompletionSupport(
     { pattern: "!**/manifest.json" },
   ];
 
-  // Shared item completion state (same ordering/filtering as itemCompletion)
-  const sharedState = buildSharedItemCompletionState(lookups);
 
   const recipeProvider = vscode.languages.registerCompletionItemProvider(
     selector,
     {
       provideCompletionItems(document, position) {
         try {
+          const lookups = registry.lookup;
           const stringNode = getStringNodeAtPosition(document, position);
           if (!stringNode) return;
 
@@ -688,6 +688,7 @@ export function registerRecipeCompletionSupport(
 
           const snippetItems: vscode.CompletionItem[] = [];
           const idItems: vscode.CompletionItem[] = [];
+          let idListIncomplete = false;
 
           // Field-specific snippets
           if (fieldIndex !== null) {
@@ -771,19 +772,19 @@ export function registerRecipeCompletionSupport(
             }
 
             // IMPORTANT: use the shared builder + correct param shape (no valueNode)
-            idItems.push(
-              ...buildItemIdCompletionsForToken({
-                lookups,
-                state: sharedState,
-                tokenTrimmed,
-                replaceRange,
-                document,
-                valueNodeOffset: stringNode.offset,
-                valueNodeLength: stringNode.length,
-                ingredientPlaceholder: INGREDIENT_PLACEHOLDER,
-                triggerSuggestCmd,
-              })
-            );
+            const idList = buildItemIdCompletionsForToken({
+              lookups,
+              state: buildSharedItemCompletionState(lookups),
+              tokenTrimmed,
+              replaceRange,
+              document,
+              valueNodeOffset: stringNode.offset,
+              valueNodeLength: stringNode.length,
+              ingredientPlaceholder: INGREDIENT_PLACEHOLDER,
+              triggerSuggestCmd,
+            });
+            idItems.push(...idList.items);
+            idListIncomplete = !!idList.isIncomplete;
           }
 
           const allItems = [...snippetItems, ...idItems];
@@ -794,7 +795,7 @@ export function registerRecipeCompletionSupport(
             attachTrailingCommaIfNeeded(document, stringNode, ci);
           }
 
-          return allItems;
+          return new vscode.CompletionList(allItems, idListIncomplete);
         } catch {
           return;
         }
@@ -824,7 +825,7 @@ export function registerRecipeCompletionSupport(
 
 export function registerRecipeInlineCompletionSupport(
   context: vscode.ExtensionContext,
-  lookups: ItemLookup
+  registry: ItemRegistry
 ): vscode.Disposable {
   const selector: vscode.DocumentSelector = [
     { pattern: "**/*.json" },
@@ -851,7 +852,7 @@ export function registerRecipeInlineCompletionSupport(
             isFullRecipeStringNodeForCompletion(stringNode, document, kind) &&
             value.trim().length === 0
           ) {
-            const snippets = buildFullRecipeCompletions(kind, recipeKey, lookups);
+            const snippets = buildFullRecipeCompletions(kind, recipeKey, registry.lookup);
             const first = snippets[0];
 
             const insertText =
@@ -4,6 +4,7 @@ import { parseTree, findNodeAtOffset, parse as parseJsonc } from "jsonc-parser";
 import * as fs from "fs";
 import * as path from "path";
 import { ItemEntry, ItemLookup } from "./stardewIds";
+import { ItemRegistry } from "./itemRegistry";
 
 /**
  * Minimal JSON AST node shape to avoid TS recursive type issues.
@@ -992,7 +993,7 @@ export function buildRecipeHoverAtPosition(
 
 export function registerRecipeHoverSupport(
   _context: vscode.ExtensionContext,
-  lookups: ItemLookup
+  registry: ItemRegistry
 ): vscode.Disposable {
   const selector: vscode.DocumentSelector = [
     { pattern: "**/*.json" },
@@ -1004,7 +1005,7 @@ export function registerRecipeHoverSupport(
       document: vscode.TextDocument,
       position: vscode.Position
     ): vscode.ProviderResult<vscode.Hover> {
-      return buildRecipeHoverAtPosition(document, position, lookups);
+      return buildRecipeHoverAtPosition(document, position, registry.lookup);
     },
   });
 }
@@ -0,0 +1,633 @@
+// src/smapiLog.ts
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { parse, parseTree, findNodeAtLocation, Node as JsonNode, ParseError } from "jsonc-parser";
+
+/**
+ * SMAPI log import.
+ *
+ * Reads a SMAPI log (SMAPI-latest.txt by default), picks out the warnings and errors
+ * about the mods open in the workspace — Content Patcher's "Mod Name > LogName"
+ * messages and the failed rows of `patch summary` output — and shows them in the
+ * Problems panel on the patch they name, in content.json or an included file.
+ */
+
+const DIAGNOSTIC_CODE = "smapiLog";
+const WATCH_DEBOUNCE_MS = 1000;
+
+// Lines kept from a multi-line log message (stack traces are dropped anyway)
+const MAX_MESSAGE_LINES = 8;
+
+/* ------------------------------------------------------------------------- */
+/*  Log parsing                                                              */
+/* ------------------------------------------------------------------------- */
+
+interface LogEntry {
+  time: string;
+  level: string; // TRACE, DEBUG, INFO, WARN, ERROR or ALERT
+  source: string; // "SMAPI", "Content Patcher", a mod name...
+  message: string; // continuation lines joined with \n
+}
+
+const LOG_LINE = /^\[(\d{2}:\d{2}:\d{2})\s+(TRACE|DEBUG|INFO|WARN|ERROR|ALERT)\s+([^\]]+)\]\s?(.*)$/;
+
+/**
+ * Split a log into entries; lines without a "[time LEVEL source]" prefix continue the
+ * previous entry (multi-line messages, `patch summary` tables, stack traces).
+ */
+function parseLogEntries(text: string): LogEntry[] {
+  const entries: LogEntry[] = [];
+  let current: LogEntry | undefined;
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = LOG_LINE.exec(line);
+    if (match) {
+      current = { time: match[1], level: match[2], source: match[3].trim(), message: match[4] };
+      entries.push(current);
+    } else if (current) {
+      current.message += "\n" + line;
+    }
+  }
+  return entries;
+}
+
+/* ------------------------------------------------------------------------- */
+/*  Workspace mods                                                           */
+/* ------------------------------------------------------------------------- */
+
+interface WorkspaceMod {
+  dir: string;
+  uniqueId: string;
+  name: string; // manifest Name, as SMAPI and Content Patcher log it
+}
+
+/**
+ * Open (possibly unsaved) editor text of a file, else its contents on disk.
+ */
+function readText(fsPath: string): string | undefined {
+  const open = vscode.workspace.textDocuments.find(
+    (doc) => doc.uri.scheme === "file" && doc.uri.fsPath === fsPath
+  );
+  if (open) return open.getText();
+  try {
+    return fs.readFileSync(fsPath, "utf8");
+  } catch {
+    return;
+  }
+}
+
+async function findWorkspaceMods(): Promise<WorkspaceMod[]> {
+  const mods: WorkspaceMod[] = [];
+  const manifests = await vscode.workspace.findFiles("**/manifest.json", "**/node_modules/**");
+
+  for (const uri of manifests) {
+    const text = readText(uri.fsPath);
+    if (text === undefined) continue;
+
+    const errors: ParseError[] = [];
+    const json = parse(text, errors, { allowTrailingComma: true });
+    const id = json?.UniqueID ?? json?.UniqueId;
+    if (typeof id !== "string" || !id.trim()) continue;
+
+    const name = typeof json.Name === "string" && json.Name.trim() ? json.Name.trim() : id.trim();
+    mods.push({ dir: path.dirname(uri.fsPath), uniqueId: id.trim(), name });
+  }
+
+  // Longest names first, so "My Mod Extras > ..." isn't taken for "My Mod"
+  return mods.sort((a, b) => b.name.length - a.name.length);
+}
+
+function findModByLabel(mods: WorkspaceMod[], label: string): WorkspaceMod | undefined {
+  const key = label.trim().toLowerCase();
+  return mods.find((m) => m.name.toLowerCase() === key || m.uniqueId.toLowerCase() === key);
+}
+
+/* ------------------------------------------------------------------------- */
+/*  Problems                                                                 */
+/* ------------------------------------------------------------------------- */
+
+interface LogProblem {
+  mod: WorkspaceMod;
+  severity: vscode.DiagnosticSeverity;
+  message: string;
+  patchPath: string[]; // path segments after the mod name; empty when only the mod is known
+  fileHint?: string; // a .json file the message mentions
+}
+
+function severityOf(level: string): vscode.DiagnosticSeverity | undefined {
+  if (level === "ERROR" || level === "ALERT") return vscode.DiagnosticSeverity.Error;
+  if (level === "WARN") return vscode.DiagnosticSeverity.Warning;
+  return;
+}
+
+/**
+ * The message without stack frames, capped at MAX_MESSAGE_LINES lines.
+ */
+function trimMessage(message: string): string {
+  return message
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .filter((line) => line && !/^\s+at\s/.test(line))
+    .slice(0, MAX_MESSAGE_LINES)
+    .join("\n");
+}
+
+/**
+ * The "Mod Name > ... > LogName" patch path a message mentions for this mod, without the
+ * mod name. A quoted path ends at its closing quote, an unquoted one at ": ".
+ */
+function extractPatchPath(message: string, mod: WorkspaceMod): string[] | undefined {
+  const lower = message.toLowerCase();
+  for (const label of [mod.name, mod.uniqueId]) {
+    const needle = `${label.toLowerCase()} > `;
+    let index = lower.indexOf(needle);
+    while (index > 0 && /[\w.]/.test(message[index - 1])) {
+      index = lower.indexOf(needle, index + 1);
+    }
+    if (index < 0) continue;
+
+    const quote = message[index - 1];
+    const rest = message.slice(index + needle.length);
+    const end = quote === '"' || quote === "'" ? rest.indexOf(quote) : rest.search(/:\s|\n/);
+    const pathText = end >= 0 ? rest.slice(0, end) : rest;
+    return pathText
+      .split(" > ")
+      .map((segment) => segment.trim())
+      .filter(Boolean);
+  }
+  return;
+}
+
+function mentionsMod(message: string, mod: WorkspaceMod): boolean {
+  const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^\\w.])(${escape(mod.name)}|${escape(mod.uniqueId)})($|[^\\w.])`, "i").test(
+    message
+  );
+}
+
+function fileHintOf(message: string): string | undefined {
+  return /([\w./\\-]+\.json)\b/i.exec(message)?.[1];
+}
+
+/**
+ * Warnings and errors about one of the workspace mods: messages naming one of its
+ * patches, messages logged under its name, and Content Patcher or SMAPI messages
+ * mentioning it (e.g. SMAPI's skipped-mod and missing-dependency errors).
+ */
+function collectMessageProblems(entry: LogEntry, mods: WorkspaceMod[]): LogProblem[] {
+  const severity = severityOf(entry.level);
+  if (severity === undefined) return [];
+
+  const message = trimMessage(entry.message);
+  const prefix = `[${entry.level} ${entry.time} ${entry.source}] `;
+
+  for (const mod of mods) {
+    const patchPath = extractPatchPath(entry.message, mod);
+    if (patchPath) {
+      return [{ mod, severity, message: prefix + message, patchPath }];
+    }
+  }
+
+  const mod =
+    findModByLabel(mods, entry.source) ??
+    (entry.source === "Content Patcher" || entry.source === "SMAPI"
+      ? mods.find((m) => mentionsMod(entry.message, m))
+      : undefined);
+  if (!mod) return [];
+  return [{ mod, severity, message: prefix + message, patchPath: [], fileHint: fileHintOf(entry.message) }];
+}
+
+const SUMMARY_ROW = /^\s*\[([Xx ])\]\s*\|\s*\[([Xx ])\]\s*\|\s*\[([Xx ])\]\s*\|\s*(.+)$/;
+const SUMMARY_MOD_HEADER = /^([^\s=|-].*?)(?:\s+\(([^()]+)\))?:\s*$/;
+
+/**
+ * Failed rows of `patch summary` output:
+ *
+ *     My Mod (me.MyMod):
+ *        loaded  | conditions | applied | name + details
+ *        [X]     | [X]        | [ ]     | EditData Data/Objects // reason
+ *
+ * A patch that wasn't loaded is an error; one whose conditions match but which wasn't
+ * applied is a warning. Patches whose conditions don't match are skipped.
+ */
+function collectSummaryProblems(entry: LogEntry, mods: WorkspaceMod[]): LogProblem[] {
+  if (!/loaded\s*\|\s*conditions\s*\|\s*applied/i.test(entry.message)) return [];
+
+  const problems: LogProblem[] = [];
+  let mod: WorkspaceMod | undefined;
+
+  for (const line of entry.message.split("\n")) {
+    const header = SUMMARY_MOD_HEADER.exec(line);
+    if (header) {
+      mod = (header[2] && findModByLabel(mods, header[2])) || findModByLabel(mods, header[1]);
+      continue;
+    }
+
+    const row = SUMMARY_ROW.exec(line);
+    if (!row || !mod) continue;
+
+    const [loaded, conditions, applied] = [row[1], row[2], row[3]].map((c) => c.toUpperCase() === "X");
+    const [name, ...details] = row[4].split(" // ");
+    const reason = details.join(" // ").trim();
+
+    let severity: vscode.DiagnosticSeverity;
+    let message: string;
+    if (!loaded) {
+      severity = vscode.DiagnosticSeverity.Error;
+      message = "Content Patcher didn't load this patch";
+    } else if (conditions && !applied) {
+      severity = vscode.DiagnosticSeverity.Warning;
+      message = "Content Patcher didn't apply this patch although its conditions match";
+    } else {
+      continue;
+    }
+
+    problems.push({
+      mod,
+      severity,
+      message: `[patch summary ${entry.time}] ${message}${reason ? `: ${reason}` : "."}`,
+      patchPath: name
+        .split(" > ")
+        .map((segment) => segment.trim())
+        .filter(Boolean),
+    });
+  }
+  return problems;
+}
+
+/* ------------------------------------------------------------------------- */
+/*  Patch location                                                           */
+/* ------------------------------------------------------------------------- */
+
+interface PatchFile {
+  relPath: string; // relative to the mod folder, forward slashes
+  uri: vscode.Uri;
+  text: string;
+  patches: JsonNode[]; // objects in Changes, in order
+}
+
+function normalizeRelPath(p: string): string {
+  return p.replace(/\\/g, "/").replace(/^\.\//, "").toLowerCase();
+}
+
+/**
+ * content.json plus every file it includes (recursively) with a literal FromFile;
+ * files whose path uses tokens can't be resolved without the game.
+ */
+function collectPatchFiles(mod: WorkspaceMod): PatchFile[] {
+  const files: PatchFile[] = [];
+  const seen = new Set<string>();
+
+  const visit = (relPath: string, depth: number) => {
+    const key = normalizeRelPath(relPath);
+    if (seen.has(key) || depth > 8) return;
+    seen.add(key);
+
+    const fsPath = path.join(mod.dir, relPath);
+    const text = readText(fsPath);
+    const root = text !== undefined ? parseTree(text) : undefined;
+    if (text === undefined || !root) return;
+
+    const changes = findNodeAtLocation(root, ["Changes"]);
+    const patches = (changes?.type === "array" ? changes.children ?? [] : []).filter(
+      (node) => node.type === "object"
+    );
+    files.push({ relPath: relPath.replace(/\\/g, "/"), uri: vscode.Uri.file(fsPath), text, patches });
+
+    for (const patch of patches) {
+      if (String(propertyValue(patch, "Action") ?? "").toLowerCase() !== "include") continue;
+      const fromFile = propertyValue(patch, "FromFile");
+      if (typeof fromFile !== "string" || fromFile.includes("{{")) continue;
+      for (const part of fromFile.split(",")) {
+        if (part.trim()) visit(part.trim(), depth + 1);
+      }
+    }
+  };
+
+  visit("content.json", 0);
+  return files;
+}
+
+function propertyNode(obj: JsonNode, key: string): JsonNode | undefined {
+  for (const prop of obj.children ?? []) {
+    const keyNode = prop.children?.[0];
+    if (keyNode?.type === "string" && String(keyNode.value).toLowerCase() === key.toLowerCase()) {
+      return prop;
+    }
+  }
+  return;
+}
+
+function propertyValue(obj: JsonNode, key: string): unknown {
+  const valueNode = propertyNode(obj, key)?.children?.[1];
+  if (!valueNode) return;
+  if (valueNode.type === "array") {
+    return (valueNode.children ?? []).map((c) => c.value).join(", ");
+  }
+  return valueNode.value;
+}
+
+/**
+ * Content Patcher's name for a patch without a LogName ("EditData Data/Objects").
+ */
+function defaultPatchName(patch: JsonNode): string {
+  const action = String(propertyValue(patch, "Action") ?? "");
+  const target = propertyValue(patch, "Target") ?? propertyValue(patch, "FromFile") ?? "";
+  return `${action} ${String(target)}`.trim();
+}
+
+function sameName(a: string, b: string): boolean {
+  const norm = (s: string) => s.replace(/\s+/g, " ").trim().toLowerCase();
+  return norm(a) === norm(b);
+}
+
+/**
+ * Names a log may show for a patch: as written, without a " #2" duplicate suffix, and
+ * without a trailing "(...)" detail.
+ */
+function nameVariants(name: string): string[] {
+  const variants = [name];
+  const withoutIndex = name.replace(/\s+#\d+$/, "");
+  if (withoutIndex !== name) variants.push(withoutIndex);
+  const withoutDetail = name.replace(/\s*\([^()]*\)\s*$/, "");
+  if (withoutDetail !== name) variants.push(withoutDetail);
+  return variants;
+}
+
+/**
+ * Find the patch a log path points at. File segments ("Include data/x.json" or
+ * "data/x.json") narrow the search to that file; the last other segment is matched
+ * against LogName, "entry #N", then the "Action Target" default name.
+ */
+function locatePatch(
+  files: PatchFile[],
+  patchPath: string[],
+  fileHint: string | undefined
+): { file: PatchFile; patch?: JsonNode } | undefined {
+  let relFile: string | undefined;
+  let name: string | undefined;
+  for (const segment of patchPath) {
+    const include = /^include\s+(.+\.json)$/i.exec(segment)?.[1];
+    if (include || /\.json$/i.test(segment)) {
+      relFile = include ?? segment;
+      name = undefined;
+    } else {
+      name = segment;
+    }
+  }
+  relFile ??= fileHint;
+
+  const targetFile = relFile
+    ? files.find((f) => normalizeRelPath(f.relPath) === normalizeRelPath(relFile!)) ??
+      files.find((f) => normalizeRelPath(relFile!).endsWith(normalizeRelPath(f.relPath)))
+    : undefined;
+  const candidates = targetFile ? [targetFile] : files;
+  if (candidates.length === 0) return;
+  if (!name) return { file: candidates[0] };
+
+  for (const variant of nameVariants(name)) {
+    for (const file of candidates) {
+      const patch = file.patches.find((p) => {
+        const logName = propertyValue(p, "LogName");
+        return typeof logName === "string" && sameName(logName, variant);
+      });
+      if (patch) return { file, patch };
+    }
+  }
+
+  const entryIndex = /^entry\s+#(\d+)/i.exec(name)?.[1];
+  if (entryIndex) {
+    const patch = candidates[0].patches[Number(entryIndex) - 1];
+    if (patch) return { file: candidates[0], patch };
+  }
+
+  for (const variant of nameVariants(name)) {
+    for (const file of candidates) {
+      const patch = file.patches.find(
+        (p) => propertyValue(p, "LogName") === undefined && sameName(defaultPatchName(p), variant)
+      );
+      if (patch) return { file, patch };
+    }
+  }
+
+  return { file: candidates[0] };
+}
+
+function positionAt(text: string, offset: number): vscode.Position {
+  const before = text.slice(0, offset);
+  const line = before.split("\n").length - 1;
+  return new vscode.Position(line, offset - (before.lastIndexOf("\n") + 1));
+}
+
+/**
+ * Where a patch's diagnostic goes: its LogName value, else its Action property, else
+ * the opening brace.
+ */
+function patchRange(file: PatchFile, patch: JsonNode | undefined): vscode.Range {
+  if (!patch) return new vscode.Range(0, 0, 0, 0);
+  const node =
+    propertyNode(patch, "LogName")?.children?.[1] ?? propertyNode(patch, "Action") ?? patch;
+  const length = node === patch ? 1 : node.length;
+  return new vscode.Range(positionAt(file.text, node.offset), positionAt(file.text, node.offset + length));
+}
+
+/* ------------------------------------------------------------------------- */
+/*  Import                                                                   */
+/* ------------------------------------------------------------------------- */
+
+function getDefaultLogPath(): string {
+  const appData =
+    process.platform === "win32"
+      ? process.env.APPDATA ?? path.join(os.homedir(), "AppData", "Roaming")
+      : path.join(os.homedir(), ".config");
+  return path.join(appData, "StardewValley", "ErrorLogs", "SMAPI-latest.txt");
+}
+
+/**
+ * stardewModdingSchema.smapiLogPath, or SMAPI's default SMAPI-latest.txt location.
+ */
+function getLogPath(): string {
+  const configured = vscode.workspace
+    .getConfiguration("stardewModdingSchema")
+    .get<string>("smapiLogPath")
+    ?.trim();
+  return configured ? path.resolve(configured) : getDefaultLogPath();
+}
+
+/**
+ * Parse a log and replace the collection's diagnostics with its problems.
+ * Returns the number of diagnostics and of mods they belong to.
+ */
+async function importLog(
+  logPath: string,
+  diagnostics: vscode.DiagnosticCollection
+): Promise<{ problems: number; mods: number }> {
+  const text = fs.readFileSync(logPath, "utf8");
+  const mods = await findWorkspaceMods();
+
+  const problems: LogProblem[] = [];
+  for (const entry of parseLogEntries(text)) {
+    problems.push(...collectSummaryProblems(entry, mods), ...collectMessageProblems(entry, mods));
+  }
+
+  const filesByMod = new Map<WorkspaceMod, PatchFile[]>();
+  const byUri = new Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[]; seen: Set<string> }>();
+  const modsWithProblems = new Set<WorkspaceMod>();
+
+  for (const problem of problems) {
+    let files = filesByMod.get(problem.mod);
+    if (!files) {
+      files = collectPatchFiles(problem.mod);
+      filesByMod.set(problem.mod, files);
+    }
+
+    const located = locatePatch(files, problem.patchPath, problem.fileHint);
+    const uri = located?.file.uri ?? vscode.Uri.file(path.join(problem.mod.dir, "manifest.json"));
+    const range = located ? patchRange(located.file, located.patch) : new vscode.Range(0, 0, 0, 0);
+
+    let bucket = byUri.get(uri.toString());
+    if (!bucket) {
+      bucket = { uri, diagnostics: [], seen: new Set() };
+      byUri.set(uri.toString(), bucket);
+    }
+
+    // The same error is usually logged on every context change
+    const message =
+      problem.patchPath.length > 0 && !located?.patch
+        ? `${problem.message}\n(patch '${problem.patchPath.join(" > ")}' not found in this mod's files)`
+        : problem.message;
+    const key = `${range.start.line}:${range.start.character}|${message.replace(/^\[[^\]]*\]\s*/, "")}`;
+    if (bucket.seen.has(key)) continue;
+    bucket.seen.add(key);
+
+    const diagnostic = new vscode.Diagnostic(range, message, problem.severity);
+    diagnostic.source = "Stardew Modding Schema";
+    diagnostic.code = DIAGNOSTIC_CODE;
+    bucket.diagnostics.push(diagnostic);
+    modsWithProblems.add(problem.mod);
+  }
+
+  diagnostics.clear();
+  let count = 0;
+  for (const bucket of byUri.values()) {
+    diagnostics.set(bucket.uri, bucket.diagnostics);
+    count += bucket.diagnostics.length;
+  }
+
+  console.log(
+    `[Stardew Modding Schema] Imported ${count} problems for ${modsWithProblems.size} mods from ${logPath}`
+  );
+  return { problems: count, mods: modsWithProblems.size };
+}
+
+async function runImportCommand(
+  diagnostics: vscode.DiagnosticCollection,
+  uri?: vscode.Uri
+): Promise<void> {
+  let logPath = uri?.fsPath;
+  if (!logPath) {
+    const defaultPath = getLogPath();
+    const picked = await vscode.window.showOpenDialog({
+      title: "Import SMAPI log",
+      defaultUri: vscode.Uri.file(fs.existsSync(defaultPath) ? defaultPath : path.dirname(defaultPath)),
+      canSelectMany: false,
+      filters: { "SMAPI log": ["txt", "log"], "All files": ["*"] },
+    });
+    logPath = picked?.[0]?.fsPath;
+  }
+  if (!logPath) return;
+
+  let result: { problems: number; mods: number };
+  try {
+    result = await importLog(logPath, diagnostics);
+  } catch (err) {
+    vscode.window.showErrorMessage(
+      `Stardew Modding Schema: Could not read ${logPath}: ${(err as Error).message}`
+    );
+    return;
+  }
+
+  if (result.problems === 0) {
+    vscode.window.showInformationMessage(
+      `Stardew Modding Schema: No warnings or errors about your mods in ${path.basename(logPath)}.`
+    );
+    return;
+  }
+
+  const choice = await vscode.window.showInformationMessage(
+    `Stardew Modding Schema: Imported ${result.problems} problems for ${result.mods} mods from ${path.basename(logPath)}.`,
+    "Show Problems"
+  );
+  if (choice === "Show Problems") {
+    await vscode.commands.executeCommand("workbench.actions.view.problems");
+  }
+}
+
+/* ------------------------------------------------------------------------- */
+/*  Registration                                                             */
+/* ------------------------------------------------------------------------- */
+
+export function registerSmapiLogSupport(context: vscode.ExtensionContext): void {
+  const diagnostics = vscode.languages.createDiagnosticCollection("stardew-smapi-log");
+
+  // Optional watcher on the configured log (re-created when the settings change)
+  let watcher: vscode.FileSystemWatcher | undefined;
+  let timer: NodeJS.Timeout | undefined;
+
+  const stopWatching = () => {
+    watcher?.dispose();
+    watcher = undefined;
+    if (timer) clearTimeout(timer);
+    timer = undefined;
+  };
+
+  const setupWatcher = () => {
+    stopWatching();
+    const config = vscode.workspace.getConfiguration("stardewModdingSchema");
+    if (config.get<boolean>("watchSmapiLog") !== true) return;
+
+    const logPath = getLogPath();
+    const reimport = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = undefined;
+        if (!fs.existsSync(logPath)) return;
+        importLog(logPath, diagnostics).catch((err) => {
+          console.warn(`[Stardew Modding Schema] Importing SMAPI log '${logPath}' failed.`);
+          console.warn(err);
+        });
+      }, WATCH_DEBOUNCE_MS);
+    };
+
+    watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(vscode.Uri.file(path.dirname(logPath)), path.basename(logPath))
+    );
+    watcher.onDidChange(reimport);
+    watcher.onDidCreate(reimport);
+    console.log(`[Stardew Modding Schema] Watching SMAPI log: ${logPath}`);
+    reimport();
+  };
+
+  setupWatcher();
+
+  context.subscriptions.push(
+    diagnostics,
+    vscode.commands.registerCommand("stardewModdingSchema.importSmapiLog", (uri?: vscode.Uri) =>
+      runImportCommand(diagnostics, uri instanceof vscode.Uri ? uri : undefined)
+    ),
+    vscode.commands.registerCommand("stardewModdingSchema.clearSmapiLogProblems", () =>
+      diagnostics.clear()
+    ),
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (
+        e.affectsConfiguration("stardewModdingSchema.smapiLogPath") ||
+        e.affectsConfiguration("stardewModdingSchema.watchSmapiLog")
+      ) {
+        setupWatcher();
+      }
+    }),
+    { dispose: stopWatching }
+  );
+}
@@ -0,0 +1,554 @@
+// src/spritePreview.ts
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import * as zlib from "zlib";
+import { parse, ParseError } from "jsonc-parser";
+import { ItemEntry } from "./stardewIds";
+
+/**
+ * Decoded image as straight 8-bit RGBA rows.
+ */
+interface RgbaImage {
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
+interface SpriteLayout {
+  tileWidth: number;
+  tileHeight: number;
+  rowHeight?: number; // height of one sprite's slot when it holds more frames (hats)
+  defaultTexture: string;
+}
+
+/**
+ * Spritesheet layouts we know how to crop, keyed by qualified ID prefix. Furniture
+ * (sized per entry), tools, shirts, pants and trinkets use layouts we don't model,
+ * so they get no preview rather than a wrong crop.
+ */
+const SPRITE_LAYOUTS: Record<string, SpriteLayout> = {
+  O: { tileWidth: 16, tileHeight: 16, defaultTexture: "Maps/springobjects" },
+  BC: { tileWidth: 16, tileHeight: 32, defaultTexture: "TileSheets/Craftables" },
+  B: { tileWidth: 16, tileHeight: 16, defaultTexture: "Maps/springobjects" },
+  // 20x80 per hat (one frame per facing direction); the first frame faces down
+  H: { tileWidth: 20, tileHeight: 20, rowHeight: 80, defaultTexture: "Characters/Farmer/hats" },
+  W: { tileWidth: 16, tileHeight: 16, defaultTexture: "TileSheets/weapons" },
+};
+
+const VANILLA_DATA_FILES: Record<string, string> = {
+  O: "Data/Objects.json",
+  BC: "Data/BigCraftables.json",
+  W: "Data/Weapons.json",
+};
+
+// Upscale factor for hover previews (pixel art looks awful when the browser smooths it)
+const SPRITE_PREVIEW_SCALE = 3;
+
+const MAX_CACHED_SHEETS = 32;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/* ------------------------------------------------------------------------- */
+/*  Minimal PNG codec (enough for Stardew spritesheets)                      */
+/* ------------------------------------------------------------------------- */
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(buf: Buffer): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < buf.length; i++) {
+    crc = crcTable[(crc ^ buf[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  if (pb <= pc) return b;
+  return c;
+}
+
+/**
+ * Decode a non-interlaced PNG into RGBA.
+ * Supports grayscale, RGB, palette, gray+alpha and RGBA at the bit depths
+ * Stardew's (and most mods') spritesheets use. Returns null for anything else.
+ */
+function decodePng(buf: Buffer): RgbaImage | null {
+  if (buf.length < 8 || !buf.subarray(0, 8).equals(PNG_SIGNATURE)) return null;
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlace = 0;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  let pos = 8;
+  while (pos + 8 <= buf.length) {
+    const length = buf.readUInt32BE(pos);
+    const type = buf.toString("ascii", pos + 4, pos + 8);
+    const data = buf.subarray(pos + 8, pos + 8 + length);
+    pos += 12 + length;
+
+    if (type === "IHDR") {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      bitDepth = data[8];
+      colorType = data[9];
+      interlace = data[12];
+    } else if (type === "PLTE") {
+      palette = data;
+    } else if (type === "tRNS") {
+      transparency = data;
+    } else if (type === "IDAT") {
+      idat.push(data);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  if (!width || !height || interlace !== 0) return null;
+
+  const channelsByType: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+  const channels = channelsByType[colorType];
+  if (!channels) return null;
+  if (bitDepth === 16 || (bitDepth < 8 && colorType !== 0 && colorType !== 3)) return null;
+  if (colorType === 3 && !palette) return null;
+
+  let raw: Buffer;
+  try {
+    raw = zlib.inflateSync(Buffer.concat(idat));
+  } catch {
+    return null;
+  }
+
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  if (raw.length < height * (stride + 1)) return null;
+
+  // Undo per-scanline filters in place
+  const rows = Buffer.alloc(height * stride);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const dst = y * stride;
+    const prev = dst - stride;
+
+    for (let x = 0; x < stride; x++) {
+      const cur = raw[src + x];
+      const left = x >= bytesPerPixel ? rows[dst + x - bytesPerPixel] : 0;
+      const up = y > 0 ? rows[prev + x] : 0;
+      const upLeft = y > 0 && x >= bytesPerPixel ? rows[prev + x - bytesPerPixel] : 0;
+
+      let value: number;
+      switch (filter) {
+        case 1:
+          value = cur + left;
+          break;
+        case 2:
+          value = cur + up;
+          break;
+        case 3:
+          value = cur + ((left + up) >> 1);
+          break;
+        case 4:
+          value = cur + paeth(left, up, upLeft);
+          break;
+        default:
+          value = cur;
+          break;
+      }
+      rows[dst + x] = value & 0xff;
+    }
+  }
+
+  const out = Buffer.alloc(width * height * 4);
+  const maxSample = (1 << bitDepth) - 1;
+
+  const sampleAt = (rowStart: number, index: number): number => {
+    if (bitDepth === 8) return rows[rowStart + index];
+    const bitOffset = index * bitDepth;
+    const byte = rows[rowStart + (bitOffset >> 3)];
+    const shift = 8 - bitDepth - (bitOffset & 7);
+    return (byte >> shift) & maxSample;
+  };
+
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * stride;
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+
+      if (colorType === 3) {
+        const idx = sampleAt(rowStart, x);
+        out[o] = palette![idx * 3] ?? 0;
+        out[o + 1] = palette![idx * 3 + 1] ?? 0;
+        out[o + 2] = palette![idx * 3 + 2] ?? 0;
+        out[o + 3] = transparency && idx < transparency.length ? transparency[idx] : 255;
+      } else if (colorType === 0) {
+        const sample = sampleAt(rowStart, x);
+        const g = Math.round((sample * 255) / maxSample);
+        out[o] = out[o + 1] = out[o + 2] = g;
+        out[o + 3] =
+          transparency && transparency.length >= 2 && transparency.readUInt16BE(0) === sample
+            ? 0
+            : 255;
+      } else if (colorType === 4) {
+        const g = rows[rowStart + x * 2];
+        out[o] = out[o + 1] = out[o + 2] = g;
+        out[o + 3] = rows[rowStart + x * 2 + 1];
+      } else if (colorType === 2) {
+        const r = rows[rowStart + x * 3];
+        const g = rows[rowStart + x * 3 + 1];
+        const b = rows[rowStart + x * 3 + 2];
+        out[o] = r;
+        out[o + 1] = g;
+        out[o + 2] = b;
+        out[o + 3] =
+          transparency &&
+          transparency.length >= 6 &&
+          transparency.readUInt16BE(0) === r &&
+          transparency.readUInt16BE(2) === g &&
+          transparency.readUInt16BE(4) === b
+            ? 0
+            : 255;
+      } else {
+        rows.copy(out, o, rowStart + x * 4, rowStart + x * 4 + 4);
+      }
+    }
+  }
+
+  return { width, height, data: out };
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  const typeAndData = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData), 0);
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+function encodePng(image: RgbaImage): Buffer {
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(image.width, 0);
+  ihdr.writeUInt32BE(image.height, 4);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = 6; // RGBA
+  ihdr[10] = 0;
+  ihdr[11] = 0;
+  ihdr[12] = 0;
+
+  const stride = image.width * 4;
+  const raw = Buffer.alloc(image.height * (stride + 1));
+  for (let y = 0; y < image.height; y++) {
+    raw[y * (stride + 1)] = 0; // filter: none
+    image.data.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk("IHDR", ihdr),
+    pngChunk("IDAT", zlib.deflateSync(raw)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Copy a rectangle out of a sheet, nearest-neighbour upscaled.
+ * Returns null if the rectangle falls outside the sheet.
+ */
+function cropScaled(
+  sheet: RgbaImage,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  scale: number
+): RgbaImage | null {
+  if (x < 0 || y < 0 || x + w > sheet.width || y + h > sheet.height) return null;
+
+  const outW = w * scale;
+  const outH = h * scale;
+  const data = Buffer.alloc(outW * outH * 4);
+
+  for (let oy = 0; oy < outH; oy++) {
+    const sy = y + Math.floor(oy / scale);
+    for (let ox = 0; ox < outW; ox++) {
+      const sx = x + Math.floor(ox / scale);
+      const s = (sy * sheet.width + sx) * 4;
+      sheet.data.copy(data, (oy * outW + ox) * 4, s, s + 4);
+    }
+  }
+
+  // Fully transparent tile = nothing there (index past the used part of the sheet)
+  let anyVisible = false;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] !== 0) {
+      anyVisible = true;
+      break;
+    }
+  }
+  if (!anyVisible) return null;
+
+  return { width: outW, height: outH, data };
+}
+
+/* ------------------------------------------------------------------------- */
+/*  Caches                                                                   */
+/* ------------------------------------------------------------------------- */
+
+const sheetCache = new Map<string, { mtimeMs: number; image: RgbaImage | null }>();
+const spriteUriCache = new Map<string, string | null>();
+
+// Spritesheet -> mtime (null: no such file), kept until its folder's watcher reports a
+// change, so hovers don't stat the file every time
+const sheetStats = new Map<string, number | null>();
+const sheetWatchers = new Map<string, vscode.FileSystemWatcher>(); // folder -> watcher
+
+function statKey(fullPath: string): string {
+  return process.platform === "win32" ? fullPath.toLowerCase() : fullPath;
+}
+
+function watchSheetFolder(dir: string): void {
+  const key = statKey(dir);
+  if (sheetWatchers.has(key)) return;
+
+  const watcher = vscode.workspace.createFileSystemWatcher(
+    new vscode.RelativePattern(vscode.Uri.file(dir), "*.png")
+  );
+  const forget = (uri: vscode.Uri) => sheetStats.delete(statKey(uri.fsPath));
+  watcher.onDidChange(forget);
+  watcher.onDidCreate(forget);
+  watcher.onDidDelete(forget);
+  sheetWatchers.set(key, watcher);
+}
+
+/**
+ * Modification time of a spritesheet, or null when it doesn't exist.
+ */
+function sheetMtime(fullPath: string): number | null {
+  const key = statKey(fullPath);
+  const cached = sheetStats.get(key);
+  if (cached !== undefined) return cached;
+
+  let mtimeMs: number | null;
+  try {
+    mtimeMs = fs.statSync(fullPath).mtimeMs;
+  } catch {
+    mtimeMs = null;
+  }
+  sheetStats.set(key, mtimeMs);
+  watchSheetFolder(path.dirname(fullPath));
+  return mtimeMs;
+}
+
+interface VanillaSpriteInfo {
+  texture?: string;
+  spriteIndex?: number;
+}
+
+let vanillaSpriteDataRoot: string | null = null;
+const vanillaSpriteData = new Map<string, Map<string, VanillaSpriteInfo>>();
+
+function loadSheet(fullPath: string, mtimeMs: number): RgbaImage | null {
+  const cached = sheetCache.get(fullPath);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.image;
+
+  // Sprites cropped from an older copy of this sheet are never looked up again
+  if (cached) {
+    for (const key of spriteUriCache.keys()) {
+      if (key.startsWith(`${fullPath}|`)) spriteUriCache.delete(key);
+    }
+  }
+
+  let image: RgbaImage | null = null;
+  try {
+    image = decodePng(fs.readFileSync(fullPath));
+  } catch {
+    image = null;
+  }
+
+  if (!image) {
+    console.warn(`[Stardew Modding Schema] Could not decode spritesheet: ${fullPath}`);
+  }
+
+  if (sheetCache.size >= MAX_CACHED_SHEETS) {
+    const oldest = sheetCache.keys().next().value;
+    if (oldest !== undefined) sheetCache.delete(oldest);
+  }
+  sheetCache.set(fullPath, { mtimeMs, image });
+
+  return image;
+}
+
+/**
+ * Texture/SpriteIndex for vanilla items, read from the unpacked Data/Objects.json
+ * (and friends) since data/stardew-ids.json doesn't carry them.
+ */
+function getVanillaSpriteInfo(
+  contentRoot: string,
+  prefix: string,
+  id: string
+): VanillaSpriteInfo | undefined {
+  if (vanillaSpriteDataRoot !== contentRoot) {
+    vanillaSpriteData.clear();
+    vanillaSpriteDataRoot = contentRoot;
+  }
+
+  let byId = vanillaSpriteData.get(prefix);
+  if (!byId) {
+    byId = new Map<string, VanillaSpriteInfo>();
+    vanillaSpriteData.set(prefix, byId);
+
+    const dataFile = VANILLA_DATA_FILES[prefix];
+    const fullPath = dataFile ? path.join(contentRoot, dataFile) : "";
+    if (fullPath && fs.existsSync(fullPath)) {
+      try {
+        const errors: ParseError[] = [];
+        const json = parse(fs.readFileSync(fullPath, "utf8"), errors, {
+          allowTrailingComma: true,
+        }) as any;
+
+        if (json && typeof json === "object") {
+          for (const [key, value] of Object.entries<any>(json)) {
+            if (!value || typeof value !== "object") continue;
+            const spriteIndex = Number(value.SpriteIndex);
+            byId.set(key, {
+              texture: typeof value.Texture === "string" ? value.Texture : undefined,
+              spriteIndex: Number.isFinite(spriteIndex) ? spriteIndex : undefined,
+            });
+          }
+        }
+      } catch {
+        // ignore; fall back to numeric IDs
+      }
+    }
+  }
+
+  return byId.get(id);
+}
+
+function getUnpackedContentRoot(): string {
+  const config = vscode.workspace.getConfiguration("stardewModdingSchema");
+  return (config.get<string>("unpackedContentPath") ?? "").trim();
+}
+
+/**
+ * Resolve an asset name like "Maps/springobjects" to a PNG under the unpacked Content folder.
+ */
+function resolveAssetInContent(contentRoot: string, assetName: string): string | null {
+  if (!contentRoot || !assetName) return null;
+  const rel = assetName.replace(/\\/g, "/").replace(/\.png$/i, "");
+  const full = path.join(contentRoot, `${rel}.png`);
+  return sheetMtime(full) !== null ? full : null;
+}
+
+/**
+ * Clear decoded sheets, cropped sprites and sheet watchers (e.g. after the index or
+ * settings change, and on deactivation).
+ */
+export function clearSpritePreviewCache(): void {
+  sheetCache.clear();
+  spriteUriCache.clear();
+  sheetStats.clear();
+  for (const watcher of sheetWatchers.values()) watcher.dispose();
+  sheetWatchers.clear();
+  vanillaSpriteData.clear();
+  vanillaSpriteDataRoot = null;
+}
+
+/**
+ * Build a `data:` URI with the item's sprite cropped from its spritesheet.
+ *
+ * Sources, in order:
+ *  1) textureFile: the PNG a mod Loads into its Texture asset (from the installed index)
+ *  2) Texture asset name resolved under `stardewModdingSchema.unpackedContentPath`
+ *  3) the type's default vanilla sheet (e.g. Maps/springobjects) under the same folder
+ *
+ * Returns null when previews are disabled or the sprite can't be found.
+ */
+export function getItemSpriteDataUri(entry: ItemEntry): string | null {
+  const config = vscode.workspace.getConfiguration("stardewModdingSchema");
+  if (config.get<boolean>("showItemSprites") === false) return null;
+
+  const m = /^\(([A-Z]+)\)/.exec(entry.qualifiedId);
+  const prefix = m ? m[1] : "";
+  const layout = SPRITE_LAYOUTS[prefix];
+  if (!layout) return null;
+
+  const contentRoot = getUnpackedContentRoot();
+
+  let texture = entry.texture;
+  let spriteIndex = entry.spriteIndex;
+
+  if (entry.source === "vanilla" && contentRoot && (spriteIndex === undefined || !texture)) {
+    const vanilla = getVanillaSpriteInfo(contentRoot, prefix, entry.id);
+    texture = texture ?? vanilla?.texture;
+    spriteIndex = spriteIndex ?? vanilla?.spriteIndex;
+  }
+
+  if (spriteIndex === undefined && entry.source === "vanilla" && /^[0-9]+$/.test(entry.id)) {
+    spriteIndex = parseInt(entry.id, 10);
+  }
+  if (spriteIndex === undefined || spriteIndex < 0) return null;
+
+  let sheetPath: string | null = null;
+  if (entry.textureFile && sheetMtime(entry.textureFile) !== null) {
+    sheetPath = entry.textureFile;
+  } else if (texture) {
+    sheetPath = resolveAssetInContent(contentRoot, texture);
+  } else {
+    sheetPath = resolveAssetInContent(contentRoot, layout.defaultTexture);
+  }
+  if (!sheetPath) return null;
+
+  // mtime in the key, so an edited sheet is cropped again
+  const sheetMtimeMs = sheetMtime(sheetPath);
+  if (sheetMtimeMs === null) return null;
+  const cacheKey = `${sheetPath}|${sheetMtimeMs}|${prefix}|${spriteIndex}`;
+  if (spriteUriCache.has(cacheKey)) return spriteUriCache.get(cacheKey) ?? null;
+
+  let uri: string | null = null;
+  const sheet = loadSheet(sheetPath, sheetMtimeMs);
+  if (sheet) {
+    const columns = Math.floor(sheet.width / layout.tileWidth);
+    if (columns > 0) {
+      const x = (spriteIndex % columns) * layout.tileWidth;
+      const y = Math.floor(spriteIndex / columns) * (layout.rowHeight ?? layout.tileHeight);
+      const sprite = cropScaled(
+        sheet,
+        x,
+        y,
+        layout.tileWidth,
+        layout.tileHeight,
+        SPRITE_PREVIEW_SCALE
+      );
+      if (sprite) {
+        uri = `data:image/png;base64,${encodePng(sprite).toString("base64")}`;
+      }
+    }
+  }
+
+  spriteUriCache.set(cacheKey, uri);
+  return uri;
+}
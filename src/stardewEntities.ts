@@ -0,0 +1,85 @@
+// src/stardewEntities.ts
+import type { ItemSource } from "./stardewIds";
+
+/**
+ * Non-item things that Data fields and game state queries refer to by name:
+ * NPCs, locations, buildings and farm animal types.
+ */
+export type EntityKind = "npc" | "location" | "building" | "farmAnimal";
+
+export interface EntityEntry {
+  id: string; // internal name, e.g. "Abigail", "SeedShop", "Big Coop", "White Chicken"
+  kind: EntityKind;
+  name: string; // display name (same as id when the Data entry has none)
+  source: ItemSource;
+  modId: string; // "Vanilla", "Custom", or the installed mod's UniqueID
+}
+
+export interface EntityLookup {
+  byKind: Record<EntityKind, Map<string, EntityEntry>>; // lowercased id -> entry
+}
+
+/**
+ * Kind → section name in the `entities` object of stardew-entities.json, the generated
+ * vanilla catalog and the installed index, plus the label shown in hovers.
+ */
+export const ENTITY_KINDS: Record<EntityKind, { section: string; label: string }> = {
+  npc: { section: "npcs", label: "NPC" },
+  location: { section: "locations", label: "Location" },
+  building: { section: "buildings", label: "Building" },
+  farmAnimal: { section: "farmAnimals", label: "Farm animal" },
+};
+
+export function createEntityLookup(): EntityLookup {
+  return {
+    byKind: {
+      npc: new Map(),
+      location: new Map(),
+      building: new Map(),
+      farmAnimal: new Map(),
+    },
+  };
+}
+
+/**
+ * Add the entries of an `entities` section ({ npcs: [...], locations: [...], ... }).
+ * Each entry is a plain ID string or { id, name?, modId? }. The first source to define
+ * an ID keeps it, so mods editing a vanilla NPC don't replace it.
+ */
+export function addEntitiesFromSource(
+  entities: any,
+  source: ItemSource,
+  defaultModId: string,
+  lookup: EntityLookup
+): void {
+  if (!entities || typeof entities !== "object") return;
+
+  for (const kind of Object.keys(ENTITY_KINDS) as EntityKind[]) {
+    const list = entities[ENTITY_KINDS[kind].section];
+    if (!Array.isArray(list)) continue;
+
+    const map = lookup.byKind[kind];
+    for (const raw of list) {
+      const id = String(typeof raw === "string" ? raw : raw?.id ?? "").trim();
+      if (!id || map.has(id.toLowerCase())) continue;
+
+      const name = typeof raw?.name === "string" && raw.name.trim() ? raw.name.trim() : id;
+      const modId =
+        typeof raw?.modId === "string" && raw.modId.trim() ? raw.modId.trim() : defaultModId;
+
+      map.set(id.toLowerCase(), { id, kind, name, source, modId });
+    }
+  }
+}
+
+/**
+ * Case-insensitive lookup (the game matches location names case-insensitively and
+ * modders often miscapitalize NPC names).
+ */
+export function findEntity(
+  lookup: EntityLookup,
+  kind: EntityKind,
+  id: string
+): EntityEntry | undefined {
+  return lookup.byKind[kind].get(id.trim().toLowerCase());
+}
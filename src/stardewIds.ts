@@ -3,29 +3,81 @@ import * as vscode from "vscode";
 import * as fs from "fs";
 import * as path from "path";
 import * as jsonc from "jsonc-parser";
+import { applyDisplayLanguage } from "./localization";
+import {
+  INSTALLED_INDEX_FILE,
+  INSTALLED_INDEX_FORMAT_VERSION,
+  getExtensionVersion,
+  readCacheFile,
+  VANILLA_CATALOG_FILE,
+  VANILLA_CATALOG_FORMAT_VERSION,
+} from "./cacheStorage";
+import {
+  addEntitiesFromSource,
+  createEntityLookup,
+  ENTITY_KINDS,
+  EntityKind,
+  EntityLookup,
+} from "./stardewEntities";
+import { DefinitionCollision, modsRootsKey } from "./installedScanner";
+import { getModsRoots } from "./modsRoots";
 
-export type ItemSource = "vanilla" | "custom" | "installed";
+// "workspace": indexed live from the mods open in the editor (not written to storage)
+export type ItemSource = "vanilla" | "custom" | "installed" | "workspace";
+
+/**
+ * A Content Patcher `When` condition an installed item was added under.
+ */
+export interface ItemCondition {
+  key: string; // When key as written, e.g. "EnableFancyCrops", "HasMod", "Season"
+  value: string; // required value(s), e.g. "true", "spacechase0.JsonAssets"
+  kind: "config" | "mod" | "token"; // ConfigSchema option, HasMod, any other token
+  configDefault?: string; // ConfigSchema Default, for config conditions
+}
 
 export interface ItemEntry {
   id: string;
   name: string;
   qualifiedId: string;
+  internalName?: string; // internal Name from the Data entry (item_* context tags)
   category: string;
   source: ItemSource;
   modId: string; // "Vanilla", "Custom", or actual manifest UniqueID for installed items
+  texture?: string; // Texture asset name from the Data entry (e.g. "Mods/MyMod/Objects")
+  spriteIndex?: number; // SpriteIndex within that texture
+  textureFile?: string; // absolute PNG path when an installed mod Loads the texture itself
+  price?: number; // sell price
+  itemCategory?: number; // numeric Category from the Data entry (e.g. -75)
+  edibility?: number;
+  type?: string; // object Type (e.g. "Basic", "Arch", "Cooking")
+  contextTags?: string[];
+  description?: string;
+  nameKey?: string; // unresolved display name ([LocalizedText ...] or {{i18n:...}})
+  localizedName?: string; // name in stardewModdingSchema.displayLanguage, when it differs
+  conditions?: ItemCondition[]; // When conditions the item is only added under (installed items)
+  editedBy?: string[]; // installed mods whose EditData patches change this entry
+  removedBy?: string[]; // installed mods that delete this entry (null entry in EditData)
+  addedBy?: string[]; // installed mods that all add this ID (conflicting definitions)
+  referenceOnly?: boolean; // installed mods only reference it; modId is a missing dependency or the referencing mod
 }
 
 export interface ItemLookup {
   byQualifiedId: Map<string, ItemEntry>;
   byId: Map<string, ItemEntry[]>;
-  byName: Map<string, ItemEntry[]>; // NEW: lookup by display name (lowercased)
+  byName: Map<string, ItemEntry[]>; // NEW: lookup by display name (lowercased; English and localized)
+  entities: EntityLookup; // NPCs, locations, buildings, farm animals from the same sources
+  collisions: Map<string, DefinitionCollision>; // "<target lowercased>::<key>" -> collision
+}
+
+export function collisionKey(target: string, key: string): string {
+  return `${target.replace(/\\/g, "/").trim().toLowerCase()}::${key}`;
 }
 
 /**
  * Try loading data/<baseName>.jsonc or data/<baseName>.json,
  * parsed as JSONC (so comments and trailing commas are OK).
  */
-function loadDataFile(
+export function loadDataFile(
   context: vscode.ExtensionContext,
   baseName: string
 ): any | null {
@@ -56,6 +108,108 @@ function loadDataFile(
   return null;
 }
 
+/**
+ * The vanilla catalog: the copy generated from unpacked Content (in extension storage)
+ * when there is one, otherwise the bundled data/stardew-ids.json(c).
+ */
+export function loadVanillaCatalog(context: vscode.ExtensionContext): any | null {
+  const generated = readCacheFile(context, VANILLA_CATALOG_FILE, {
+    formatVersion: VANILLA_CATALOG_FORMAT_VERSION,
+  });
+  if (generated.data) {
+    return generated.data;
+  }
+  return loadDataFile(context, "stardew-ids");
+}
+
+/**
+ * The installed mod index from extension storage, if it was built by this extension
+ * version for the current mods roots (workspace folders included, so another
+ * workspace's mods never show up as installed). A stale or incompatible index is
+ * skipped (the startup rebuild replaces it).
+ */
+function loadInstalledIndex(context: vscode.ExtensionContext): any | null {
+  const result = readCacheFile(context, INSTALLED_INDEX_FILE, {
+    formatVersion: INSTALLED_INDEX_FORMAT_VERSION,
+    extensionVersion: getExtensionVersion(context),
+    inputs: { modsRoots: modsRootsKey(getModsRoots()) },
+  });
+  if (!result.data) {
+    console.log(
+      `[Stardew Modding Schema] Installed mod index not loaded (${result.staleReason}); it will be rebuilt.`
+    );
+    return null;
+  }
+  return result.data;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((v): v is string => typeof v === "string" && v.trim().length > 0)
+    : [];
+}
+
+/**
+ * Copy the optional Data fields (sprite, price, category, tags, ...) from a
+ * stardew-ids-style item onto an entry. Missing fields stay undefined.
+ */
+function applyOptionalItemFields(item: any, entry: ItemEntry): void {
+  entry.internalName = optionalString(item.internalName);
+  entry.texture = optionalString(item.texture);
+  entry.spriteIndex = optionalNumber(item.spriteIndex);
+  entry.textureFile = optionalString(item.textureFile);
+  entry.price = optionalNumber(item.price);
+  entry.itemCategory = optionalNumber(item.itemCategory);
+  entry.edibility = optionalNumber(item.edibility);
+  entry.type = optionalString(item.type);
+  entry.description = optionalString(item.description);
+  entry.nameKey = optionalString(item.nameKey);
+
+  if (Array.isArray(item.contextTags)) {
+    const tags = item.contextTags
+      .filter((t: unknown): t is string => typeof t === "string")
+      .map((t: string) => t.trim())
+      .filter(Boolean);
+    if (tags.length > 0) entry.contextTags = tags;
+  }
+
+  if (Array.isArray(item.conditions)) {
+    const conditions: ItemCondition[] = item.conditions
+      .filter((c: any) => c && typeof c.key === "string" && typeof c.value === "string")
+      .map((c: any) => {
+        const condition: ItemCondition = {
+          key: c.key,
+          value: c.value,
+          kind: c.kind === "config" || c.kind === "mod" ? c.kind : "token",
+        };
+        if (typeof c.configDefault === "string") condition.configDefault = c.configDefault;
+        return condition;
+      });
+    if (conditions.length > 0) entry.conditions = conditions;
+  }
+
+  entry.editedBy = stringList(item.editedBy);
+  entry.removedBy = stringList(item.removedBy);
+  entry.addedBy = stringList(item.addedBy);
+  if (entry.editedBy.length === 0) entry.editedBy = undefined;
+  if (entry.removedBy.length === 0) entry.removedBy = undefined;
+  if (entry.addedBy.length < 2) entry.addedBy = undefined;
+  if (item.referenceOnly === true) entry.referenceOnly = true;
+
+  // Keep entries lean: drop keys that weren't present
+  for (const key of Object.keys(entry) as (keyof ItemEntry)[]) {
+    if (entry[key] === undefined) delete entry[key];
+  }
+}
+
 /**
  * Add items from a stardew-ids-style JSON into the lookup maps.
  * Respects categoryTypes, and will attach modId if present on each entry.
@@ -105,6 +259,8 @@ function addItemsFromSource(
         modId,
       };
 
+      applyOptionalItemFields(item, entry);
+
       // byQualifiedId: last one wins (installed/custom can override vanilla)
       lookup.byQualifiedId.set(qualifiedId, entry);
 
@@ -122,6 +278,23 @@ function addItemsFromSource(
   }
 }
 
+/**
+ * Mark vanilla/custom entries that installed mods edit or delete (the installed
+ * index's "patches" section, keyed by qualified ID).
+ */
+function applyInstalledPatches(patches: any, lookup: ItemLookup): void {
+  if (!patches || typeof patches !== "object") return;
+
+  for (const [qualifiedId, patch] of Object.entries<any>(patches)) {
+    const entry = lookup.byQualifiedId.get(qualifiedId);
+    if (!entry || !patch || typeof patch !== "object") continue;
+    for (const field of ["editedBy", "removedBy"] as const) {
+      const mods = stringList(patch[field]);
+      if (mods.length > 0) entry[field] = mods;
+    }
+  }
+}
+
 /**
  * Load vanilla, custom, and installed item IDs into lookup maps.
  */
@@ -132,10 +305,12 @@ export function loadStardewIds(
     byQualifiedId: new Map<string, ItemEntry>(),
     byId: new Map<string, ItemEntry[]>(),
     byName: new Map<string, ItemEntry[]>(),
+    entities: createEntityLookup(),
+    collisions: new Map<string, DefinitionCollision>(),
   };
 
   // 1) Vanilla
-  const vanillaJson = loadDataFile(context, "stardew-ids");
+  const vanillaJson = loadVanillaCatalog(context);
   if (!vanillaJson) {
     console.warn(
       "[Stardew Modding Schema] data/stardew-ids.json(.jsonc) not found; item features disabled."
@@ -150,15 +325,94 @@ export function loadStardewIds(
     addItemsFromSource(customJson, "custom", "Custom", lookup);
   }
 
-  // 3) Installed mod IDs (optional; built from Mods folder)
-  const installedJson = loadDataFile(context, "installed-mod-ids");
+  // 3) Installed mod IDs (optional; built from Mods folder into extension storage)
+  const installedJson = loadInstalledIndex(context);
   if (installedJson) {
     addItemsFromSource(installedJson, "installed", "Installed", lookup);
+    applyInstalledPatches(installedJson.patches, lookup);
+
+    for (const c of Array.isArray(installedJson.collisions) ? installedJson.collisions : []) {
+      if (!c || typeof c.target !== "string" || typeof c.key !== "string") continue;
+      const mods = stringList(c.mods);
+      if (mods.length > 1) {
+        lookup.collisions.set(collisionKey(c.target, c.key), { target: c.target, key: c.key, mods });
+      }
+    }
   }
 
+  // 4) Localized names for the configured display language (optional)
+  applyDisplayLanguage(lookup, installedJson?.mods);
+
+  // 5) NPCs, locations, buildings and farm animals. A catalog generated from unpacked
+  //    Content carries its own; the bundled one relies on data/stardew-entities.json.
+  const vanillaEntities =
+    vanillaJson.entities ?? loadDataFile(context, "stardew-entities")?.entities;
+  addEntitiesFromSource(vanillaEntities, "vanilla", "Vanilla", lookup.entities);
+  addEntitiesFromSource(customJson?.entities, "custom", "Custom", lookup.entities);
+  addEntitiesFromSource(installedJson?.entities, "installed", "Installed", lookup.entities);
+
   console.log(
     `[Stardew Modding Schema] Loaded ${lookup.byQualifiedId.size} item entries (vanilla + custom + installed).`
   );
 
   return lookup;
 }
+
+/**
+ * Entities of `base` plus the workspace ones. Installed entries of the workspace mods
+ * (their installed copies) give way to the live ones; vanilla and other mods' entries
+ * still win, as in the installed index.
+ */
+function withWorkspaceEntities(base: EntityLookup, workspaceJson: any): EntityLookup {
+  const workspaceMods = new Set(Object.keys(workspaceJson?.mods ?? {}));
+  const merged = createEntityLookup();
+  for (const kind of Object.keys(ENTITY_KINDS) as EntityKind[]) {
+    for (const [key, entry] of base.byKind[kind]) {
+      if (entry.source === "installed" && workspaceMods.has(entry.modId)) continue;
+      merged.byKind[kind].set(key, entry);
+    }
+  }
+  addEntitiesFromSource(workspaceJson?.entities, "workspace", "Workspace", merged);
+  return merged;
+}
+
+/**
+ * A copy of `base` with the live workspace items (a stardew-ids-style JSON) layered on
+ * top. Workspace entries replace any entry with the same qualified ID, e.g. the copy
+ * of the same mod in the installed index. Their names are localized and their entities
+ * merged like the installed index's. `base` is left untouched.
+ */
+export function withWorkspaceItems(base: ItemLookup, workspaceJson: any): ItemLookup {
+  if (!workspaceJson) return base;
+
+  const overlay: ItemLookup = {
+    byQualifiedId: new Map<string, ItemEntry>(),
+    byId: new Map<string, ItemEntry[]>(),
+    byName: new Map<string, ItemEntry[]>(),
+    entities: createEntityLookup(),
+    collisions: new Map<string, DefinitionCollision>(),
+  };
+  addItemsFromSource(workspaceJson, "workspace", "Workspace", overlay);
+  applyDisplayLanguage(overlay, workspaceJson.mods);
+
+  const replaced = (entry: ItemEntry) => overlay.byQualifiedId.has(entry.qualifiedId);
+  const merge = (baseMap: Map<string, ItemEntry[]>, overlayMap: Map<string, ItemEntry[]>) => {
+    const merged = new Map<string, ItemEntry[]>();
+    for (const [key, list] of baseMap) {
+      const kept = list.filter((entry) => !replaced(entry));
+      if (kept.length > 0) merged.set(key, kept);
+    }
+    for (const [key, list] of overlayMap) {
+      merged.set(key, [...(merged.get(key) ?? []), ...list]);
+    }
+    return merged;
+  };
+
+  return {
+    byQualifiedId: new Map([...base.byQualifiedId, ...overlay.byQualifiedId]),
+    byId: merge(base.byId, overlay.byId),
+    byName: merge(base.byName, overlay.byName),
+    entities: withWorkspaceEntities(base.entities, workspaceJson),
+    collisions: base.collisions,
+  };
+}
@@ -1,6 +1,6 @@
 // src/stardewIntelliSense.ts
 import * as vscode from "vscode";
-import { loadStardewIds, ItemLookup } from "./stardewIds";
+import { createItemRegistry } from "./itemRegistry";
 import { registerItemHoverSupport } from "./itemHover";
 import { registerItemCompletionSupport } from "./itemCompletion";
 import {
@@ -9,6 +9,13 @@ import {
 } from "./recipeCompletion";
 import { registerRecipeHoverSupport } from "./recipeHover";
 import { registerI18nHoverSupport } from "./i18nHover";
+import { registerContextTagSupport } from "./contextTags";
+import { registerItemQuerySupport } from "./itemQueries";
+import { registerEntitySupport } from "./entitySupport";
+import { registerDefinitionConflictSupport } from "./definitionConflicts";
+import { registerDependencyDiagnosticSupport } from "./dependencyDiagnostics";
+import { registerWorkspaceIndexSupport } from "./workspaceIndex";
+import { registerItemExportSupport } from "./itemExport";
 
 /**
  * Central registration point for all Stardew IntelliSense features:
@@ -18,6 +25,13 @@ import { registerI18nHoverSupport } from "./i18nHover";
  *  - Recipe completions (snippets + ID completions)
  *  - Recipe inline completions (where it makes sense)
  *  - i18n hovers
+ *  - Context tag completion/hover/diagnostics
+ *  - Item query (RANDOM_ITEMS, FLAVORED_ITEM, ...) completion/hover/diagnostics
+ *  - NPC / location / building / farm animal completion and hover
+ *  - Conflicting definition diagnostics + report command
+ *  - Missing manifest dependency diagnostics + quick fix
+ *  - Live indexing of the mods open in the workspace
+ *  - Item ID export (CSV / Markdown / JSON)
  */
 export function registerStardewIntelliSense(
   context: vscode.ExtensionContext
@@ -25,27 +39,43 @@ export function registerStardewIntelliSense(
   // i18n hover does NOT depend on stardew IDs, so always register it.
   registerI18nHoverSupport(context);
 
-  const lookups = loadStardewIds(context) as ItemLookup | null;
+  // Live registry: providers query it per request and pick up rebuilds without a reload
+  const registry = createItemRegistry(context);
 
-  if (!lookups) {
+  if (!registry) {
     console.warn(
       "[Stardew Modding Schema] No stardew-ids.json(.jsonc) found; item/recipe IntelliSense disabled (i18n hover still enabled)."
     );
     return;
   }
 
-  const itemHoverDisposable = registerItemHoverSupport(context, lookups);
-  const itemCompletionDisposable = registerItemCompletionSupport(context, lookups);
+  // Items of the mods being edited, layered onto the registry as they change
+  const workspaceIndexDisposable = registerWorkspaceIndexSupport(context, registry);
 
-  const recipeHoverDisposable = registerRecipeHoverSupport(context, lookups);
+  const itemHoverDisposable = registerItemHoverSupport(context, registry);
+  const itemCompletionDisposable = registerItemCompletionSupport(context, registry);
+
+  const recipeHoverDisposable = registerRecipeHoverSupport(context, registry);
+
+  const contextTagDisposable = registerContextTagSupport(context, registry);
+
+  const itemQueryDisposable = registerItemQuerySupport(context, registry);
+
+  const entityDisposable = registerEntitySupport(context, registry);
+
+  const conflictDisposable = registerDefinitionConflictSupport(context, registry);
+
+  const dependencyDisposable = registerDependencyDiagnosticSupport(context, registry);
+
+  const exportDisposable = registerItemExportSupport(context, registry);
 
   // Dropdown completions (IDs, snippets)
-  const recipeCompletionDisposable = registerRecipeCompletionSupport(context, lookups);
+  const recipeCompletionDisposable = registerRecipeCompletionSupport(context, registry);
 
   // Inline completions (skeletons, flags, unlocks, etc.)
   const recipeInlineCompletionDisposable = registerRecipeInlineCompletionSupport(
     context,
-    lookups
+    registry
   );
 
   context.subscriptions.push(
@@ -53,6 +83,13 @@ export function registerStardewIntelliSense(
     itemCompletionDisposable,
     recipeHoverDisposable,
     recipeCompletionDisposable,
-    recipeInlineCompletionDisposable
+    recipeInlineCompletionDisposable,
+    contextTagDisposable,
+    itemQueryDisposable,
+    entityDisposable,
+    conflictDisposable,
+    dependencyDisposable,
+    workspaceIndexDisposable,
+    exportDisposable
   );
 }
@@ -0,0 +1,513 @@
+// src/vanillaCatalog.ts
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { parse, ParseError } from "jsonc-parser";
+import { getOutputChannel } from "./outputChannel";
+import { VANILLA_CATALOG_FILE, VANILLA_CATALOG_FORMAT_VERSION, writeCacheFile } from "./cacheStorage";
+import { loadVanillaCatalog } from "./stardewIds";
+import { reloadItemRegistries } from "./itemRegistry";
+import { ENTITY_KINDS, EntityKind } from "./stardewEntities";
+
+/**
+ * One item in the stardew-ids.json catalog format consumed by addItemsFromSource.
+ */
+interface CatalogItem {
+  id: string | number;
+  name: string;
+  qualifiedId: string;
+  [field: string]: unknown;
+}
+
+type CatalogJson = Record<string, any> & {
+  categoryTypes: Record<string, string>;
+};
+
+interface CatalogDiff {
+  added: CatalogItem[];
+  removed: CatalogItem[];
+  renamed: { qualifiedId: string; from: string; to: string }[];
+}
+
+type DataFormat = "object" | "furniture" | "boots" | "hats";
+
+/**
+ * Unpacked Data assets that define items, in catalog category order.
+ */
+const DATA_SOURCES: { file: string; categoryKey: string; prefix: string; format: DataFormat }[] = [
+  { file: "Objects", categoryKey: "objects", prefix: "O", format: "object" },
+  { file: "BigCraftables", categoryKey: "bigCraftables", prefix: "BC", format: "object" },
+  { file: "Boots", categoryKey: "boots", prefix: "B", format: "boots" },
+  { file: "Furniture", categoryKey: "furniture", prefix: "F", format: "furniture" },
+  { file: "Hats", categoryKey: "hats", prefix: "H", format: "hats" },
+  { file: "Mannequins", categoryKey: "mannequins", prefix: "M", format: "object" },
+  { file: "Pants", categoryKey: "pants", prefix: "P", format: "object" },
+  { file: "Shirts", categoryKey: "shirts", prefix: "S", format: "object" },
+  { file: "Tools", categoryKey: "tools", prefix: "T", format: "object" },
+  { file: "Trinkets", categoryKey: "trinkets", prefix: "TR", format: "object" },
+  { file: "Weapons", categoryKey: "weapons", prefix: "W", format: "object" },
+];
+
+const CATEGORY_TYPES: Record<string, string> = {
+  objects: "O",
+  bigCraftables: "BC",
+  boots: "B",
+  flooring: "FL",
+  furniture: "F",
+  hats: "H",
+  mannequins: "M",
+  pants: "P",
+  shirts: "S",
+  tools: "T",
+  trinkets: "TR",
+  wallpapers: "WP",
+  weapons: "W",
+};
+
+// The ingredient placeholder entry is hand-authored; carry it over untouched.
+const PRESERVED_OBJECT_IDS = new Set<string>(["__INGREDIENT__"]);
+
+function readJsonc(fullPath: string): any | null {
+  if (!fs.existsSync(fullPath)) return null;
+  try {
+    const errors: ParseError[] = [];
+    const json = parse(fs.readFileSync(fullPath, "utf8"), errors, {
+      allowTrailingComma: true,
+    }) as any;
+    return json && typeof json === "object" ? json : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Accept either the unpacked Content folder or its Data subfolder.
+ */
+export function findContentRoot(folder: string): string | null {
+  if (!folder) return null;
+  if (fs.existsSync(path.join(folder, "Data", "Objects.json"))) return folder;
+  if (
+    path.basename(folder).toLowerCase() === "data" &&
+    fs.existsSync(path.join(folder, "Objects.json"))
+  ) {
+    return path.dirname(folder);
+  }
+  return null;
+}
+
+/**
+ * Resolves `[LocalizedText Strings\File:Key]` against unpacked Strings/*.json,
+ * optionally for a locale (Strings/File.<locale>.json, falling back to the default file).
+ */
+export class LocalizedStrings {
+  private readonly files = new Map<string, Record<string, string> | null>();
+
+  constructor(
+    private readonly contentRoot: string,
+    private readonly locale: string = ""
+  ) {}
+
+  public lookup(assetName: string, key: string): string | undefined {
+    const asset = assetName.replace(/\\/g, "/").trim();
+    const candidates = this.locale ? [`${asset}.${this.locale}`, asset] : [asset];
+
+    for (const candidate of candidates) {
+      const strings = this.load(candidate);
+      const value = strings?.[key];
+      if (typeof value === "string") return value;
+    }
+    return undefined;
+  }
+
+  /**
+   * Replace every [LocalizedText ...] in a string. Unresolvable keys are left as-is.
+   */
+  public resolve(text: string): string {
+    if (typeof text !== "string" || !text) return text;
+    return text
+      .replace(/\[\s*LocalizedText\s+([^:\]\s]+):([^\]\s]+)[^\]]*\]/gi, (match, asset, key) => {
+        return this.lookup(asset, key) ?? match;
+      })
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+
+  private load(asset: string): Record<string, string> | null {
+    if (this.files.has(asset)) return this.files.get(asset) ?? null;
+    const json = readJsonc(path.join(this.contentRoot, `${asset}.json`));
+    this.files.set(asset, json);
+    return json;
+  }
+}
+
+function toCatalogId(id: string): string | number {
+  return /^[0-9]+$/.test(id) ? parseInt(id, 10) : id;
+}
+
+function numberOrUndefined(raw: unknown): number | undefined {
+  const n = typeof raw === "number" ? raw : typeof raw === "string" && raw.trim() ? Number(raw) : NaN;
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * The unresolved display name field of a Data entry (usually a `[LocalizedText ...]` key).
+ */
+function rawDisplayName(format: DataFormat, data: any): string {
+  if (format === "object") {
+    return data && typeof data === "object" && typeof data.DisplayName === "string"
+      ? data.DisplayName.trim()
+      : "";
+  }
+  if (typeof data !== "string") return "";
+  const index = format === "furniture" ? 7 : format === "boots" ? 6 : 5;
+  return (data.split("/")[index] ?? "").trim();
+}
+
+function isLocalizedTextKey(raw: string): boolean {
+  return /\[\s*LocalizedText\s/i.test(raw);
+}
+
+/**
+ * Qualified ID → `[LocalizedText ...]` display name key, read straight from unpacked Data.
+ * Used to localize catalogs generated before nameKey was recorded.
+ */
+export function readVanillaNameKeys(contentRoot: string): Map<string, string> {
+  const keys = new Map<string, string>();
+  for (const source of DATA_SOURCES) {
+    const data = readJsonc(path.join(contentRoot, "Data", `${source.file}.json`));
+    if (!data || Array.isArray(data)) continue;
+    for (const [id, entry] of Object.entries(data)) {
+      const raw = rawDisplayName(source.format, entry);
+      if (isLocalizedTextKey(raw)) keys.set(`(${source.prefix})${id}`, raw);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Convert one Data entry to a catalog item (name + optional metadata fields).
+ */
+function toCatalogItem(
+  id: string,
+  prefix: string,
+  format: DataFormat,
+  data: any,
+  strings: LocalizedStrings
+): CatalogItem | null {
+  const item: CatalogItem = { id: toCatalogId(id), name: "", qualifiedId: `(${prefix})${id}` };
+
+  // Keep the LocalizedText key so the display language setting can re-resolve it
+  const nameKey = rawDisplayName(format, data);
+  if (isLocalizedTextKey(nameKey)) item.nameKey = nameKey;
+
+  if (format === "object") {
+    if (!data || typeof data !== "object") return null;
+
+    const displayName =
+      typeof data.DisplayName === "string" ? strings.resolve(data.DisplayName) : "";
+    item.name = displayName || (typeof data.Name === "string" ? data.Name : id);
+    if (typeof data.Name === "string" && data.Name.trim()) item.internalName = data.Name.trim();
+
+    const price = numberOrUndefined(data.Price);
+    const itemCategory = numberOrUndefined(data.Category);
+    const edibility = numberOrUndefined(data.Edibility);
+    const spriteIndex = numberOrUndefined(data.SpriteIndex);
+
+    if (price !== undefined) item.price = price;
+    if (itemCategory !== undefined) item.itemCategory = itemCategory;
+    if (edibility !== undefined) item.edibility = edibility;
+    if (typeof data.Type === "string" && data.Type) item.type = data.Type;
+    if (Array.isArray(data.ContextTags) && data.ContextTags.length > 0) {
+      item.contextTags = data.ContextTags.filter((t: unknown) => typeof t === "string");
+    }
+    if (typeof data.Texture === "string" && data.Texture) item.texture = data.Texture;
+    if (spriteIndex !== undefined) item.spriteIndex = spriteIndex;
+    if (typeof data.Description === "string" && data.Description) {
+      item.description = strings.resolve(data.Description);
+    }
+    return item;
+  }
+
+  if (typeof data !== "string") return null;
+  const parts = data.split("/");
+  const field = (i: number) => (parts[i] ?? "").trim();
+  if (field(0)) item.internalName = field(0);
+
+  // Slash-delimited formats: sprite index and texture fields, and the sheet used when
+  // the texture is empty (the sprite index then defaults to the numeric ID)
+  let spriteField: number;
+  let defaultTexture: string;
+
+  if (format === "furniture") {
+    item.name = strings.resolve(field(7)) || field(0) || id;
+    const price = numberOrUndefined(field(5));
+    if (price !== undefined) item.price = price;
+    const tags = field(11).split(/\s+/).filter(Boolean);
+    if (tags.length > 0) item.contextTags = tags;
+    spriteField = 8;
+    defaultTexture = "TileSheets/furniture";
+  } else if (format === "boots") {
+    item.name = strings.resolve(field(6)) || field(0) || id;
+    const price = numberOrUndefined(field(2));
+    if (price !== undefined) item.price = price;
+    if (field(1)) item.description = strings.resolve(field(1));
+    spriteField = 8;
+    defaultTexture = "Maps/springobjects";
+  } else {
+    item.name = strings.resolve(field(5)) || field(0) || id;
+    if (field(1)) item.description = strings.resolve(field(1));
+    spriteField = 6;
+    defaultTexture = "Characters/Farmer/hats";
+  }
+
+  const spriteIndex =
+    numberOrUndefined(field(spriteField)) ?? (/^[0-9]+$/.test(id) ? parseInt(id, 10) : undefined);
+  item.texture = field(spriteField + 1) || defaultTexture;
+  if (spriteIndex !== undefined) item.spriteIndex = spriteIndex;
+
+  return item;
+}
+
+/**
+ * Wallpapers/floors from Data/AdditionalWallpaperFlooring (the base game sets are
+ * hardcoded and are carried over from the previous catalog).
+ */
+function wallpaperFlooringItems(contentRoot: string): { flooring: CatalogItem[]; wallpapers: CatalogItem[] } {
+  const out = { flooring: [] as CatalogItem[], wallpapers: [] as CatalogItem[] };
+  const data = readJsonc(path.join(contentRoot, "Data", "AdditionalWallpaperFlooring.json"));
+  if (!Array.isArray(data)) return out;
+
+  for (const set of data) {
+    if (!set || typeof set.Id !== "string") continue;
+    const isFlooring = set.IsFlooring === true;
+    const count = numberOrUndefined(set.Count) ?? 1;
+
+    for (let i = 0; i < count; i++) {
+      const id = `${set.Id}:${i}`;
+      const prefix = isFlooring ? "FL" : "WP";
+      (isFlooring ? out.flooring : out.wallpapers).push({
+        id,
+        name: `${isFlooring ? "Flooring" : "Wallpaper"} ${id}`,
+        qualifiedId: `(${prefix})${id}`,
+      });
+    }
+  }
+  return out;
+}
+
+/**
+ * Unpacked Data assets that define NPCs, locations, buildings and farm animals, and the
+ * field holding each entry's display name.
+ */
+const ENTITY_SOURCES: { file: string; kind: EntityKind; nameField: string }[] = [
+  { file: "Characters", kind: "npc", nameField: "DisplayName" },
+  { file: "Locations", kind: "location", nameField: "DisplayName" },
+  { file: "Buildings", kind: "building", nameField: "Name" },
+  { file: "FarmAnimals", kind: "farmAnimal", nameField: "DisplayName" },
+];
+
+// Data/Locations fallback entry, not a real location
+const IGNORED_ENTITY_IDS = new Set<string>(["Default"]);
+
+/**
+ * The catalog's `entities` section from Data/Characters, Locations, Buildings and
+ * FarmAnimals. A missing asset keeps the previous catalog's list for that kind.
+ */
+function vanillaEntities(
+  contentRoot: string,
+  strings: LocalizedStrings,
+  previous: CatalogJson | null
+): Record<string, { id: string; name: string }[]> {
+  const entities: Record<string, { id: string; name: string }[]> = {};
+
+  for (const source of ENTITY_SOURCES) {
+    const section = ENTITY_KINDS[source.kind].section;
+    const data = readJsonc(path.join(contentRoot, "Data", `${source.file}.json`));
+    if (!data || Array.isArray(data)) {
+      const carried = previous?.entities?.[section];
+      if (Array.isArray(carried)) entities[section] = carried;
+      continue;
+    }
+
+    entities[section] = Object.entries<any>(data)
+      .filter(([id]) => !IGNORED_ENTITY_IDS.has(id))
+      .map(([id, value]) => {
+        const rawName = value && typeof value[source.nameField] === "string" ? value[source.nameField] : "";
+        const name = rawName ? strings.resolve(rawName) : "";
+        return { id, name: name && !isLocalizedTextKey(name) ? name : id };
+      });
+  }
+
+  return entities;
+}
+
+/**
+ * Build a fresh catalog from an unpacked Content folder.
+ * Hand-maintained parts of the previous catalog (placeholder entry, base wallpapers/floors)
+ * are carried over.
+ */
+export function buildVanillaCatalog(
+  contentRoot: string,
+  previous: CatalogJson | null
+): CatalogJson {
+  const strings = new LocalizedStrings(contentRoot);
+  const catalog: CatalogJson = { categoryTypes: { ...CATEGORY_TYPES } };
+
+  for (const key of Object.keys(CATEGORY_TYPES)) {
+    catalog[key] = [];
+  }
+
+  if (previous && Array.isArray(previous.objects)) {
+    for (const item of previous.objects) {
+      if (item && PRESERVED_OBJECT_IDS.has(String(item.id))) catalog.objects.push(item);
+    }
+  }
+
+  for (const source of DATA_SOURCES) {
+    const data = readJsonc(path.join(contentRoot, "Data", `${source.file}.json`));
+    if (!data || Array.isArray(data)) {
+      // Partial unpack: keep what we had rather than reporting the whole category as removed
+      console.warn(
+        `[Stardew Modding Schema] Data/${source.file}.json missing or unreadable; keeping previous ${source.categoryKey}.`
+      );
+      if (Array.isArray(previous?.[source.categoryKey])) {
+        catalog[source.categoryKey] = previous![source.categoryKey];
+      }
+      continue;
+    }
+
+    for (const [id, value] of Object.entries<any>(data)) {
+      const item = toCatalogItem(id, source.prefix, source.format, value, strings);
+      if (item) catalog[source.categoryKey].push(item);
+    }
+  }
+
+  const extra = wallpaperFlooringItems(contentRoot);
+  for (const key of ["flooring", "wallpapers"] as const) {
+    const seen = new Set<string>();
+    const carried = Array.isArray(previous?.[key]) ? previous![key] : [];
+    for (const item of [...carried, ...extra[key]]) {
+      if (!item || seen.has(item.qualifiedId)) continue;
+      seen.add(item.qualifiedId);
+      catalog[key].push(item);
+    }
+  }
+
+  catalog.entities = vanillaEntities(contentRoot, strings, previous);
+
+  return catalog;
+}
+
+function indexCatalog(catalog: CatalogJson | null): Map<string, CatalogItem> {
+  const map = new Map<string, CatalogItem>();
+  if (!catalog) return map;
+  for (const key of Object.keys(catalog.categoryTypes ?? {})) {
+    const arr = catalog[key];
+    if (!Array.isArray(arr)) continue;
+    for (const item of arr) {
+      if (item && typeof item.qualifiedId === "string") map.set(item.qualifiedId, item);
+    }
+  }
+  return map;
+}
+
+export function diffCatalogs(previous: CatalogJson | null, next: CatalogJson): CatalogDiff {
+  const before = indexCatalog(previous);
+  const after = indexCatalog(next);
+  const diff: CatalogDiff = { added: [], removed: [], renamed: [] };
+
+  for (const [qid, item] of after) {
+    const old = before.get(qid);
+    if (!old) diff.added.push(item);
+    else if (old.name !== item.name) diff.renamed.push({ qualifiedId: qid, from: old.name, to: item.name });
+  }
+  for (const [qid, item] of before) {
+    if (!after.has(qid)) diff.removed.push(item);
+  }
+
+  return diff;
+}
+
+function reportCatalogDiff(contentRoot: string, outPath: string, diff: CatalogDiff): void {
+  const out = getOutputChannel();
+  out.appendLine(`Vanilla item catalog regenerated from ${contentRoot}`);
+  out.appendLine(`  Written to ${outPath}`);
+  out.appendLine(
+    `  +${diff.added.length} added, -${diff.removed.length} removed, ~${diff.renamed.length} renamed`
+  );
+  for (const item of diff.added) out.appendLine(`  + ${item.qualifiedId} ${item.name}`);
+  for (const item of diff.removed) out.appendLine(`  - ${item.qualifiedId} ${item.name}`);
+  for (const r of diff.renamed) out.appendLine(`  ~ ${r.qualifiedId} ${r.from} → ${r.to}`);
+  out.appendLine("");
+}
+
+async function pickContentRoot(): Promise<string | null> {
+  const config = vscode.workspace.getConfiguration("stardewModdingSchema");
+  const configured = findContentRoot((config.get<string>("unpackedContentPath") ?? "").trim());
+  if (configured) return configured;
+
+  const picked = await vscode.window.showOpenDialog({
+    canSelectFiles: false,
+    canSelectFolders: true,
+    canSelectMany: false,
+    openLabel: "Use this Content folder",
+    title: "Select the unpacked Stardew Valley Content folder (StardewXnbHack output)",
+  });
+  if (!picked || picked.length === 0) return null;
+
+  const root = findContentRoot(picked[0].fsPath);
+  if (!root) {
+    vscode.window.showErrorMessage(
+      "Stardew Modding Schema: That folder doesn't contain an unpacked Data/Objects.json."
+    );
+  }
+  return root;
+}
+
+async function generateVanillaItemIds(context: vscode.ExtensionContext): Promise<void> {
+  const contentRoot = await pickContentRoot();
+  if (!contentRoot) return;
+
+  // Diff against whatever catalog is in use now (a previous generated one, else the bundled one)
+  const previous = loadVanillaCatalog(context) as CatalogJson | null;
+
+  let diff: CatalogDiff;
+  let outPath: string;
+  try {
+    const catalog = buildVanillaCatalog(contentRoot, previous);
+    diff = diffCatalogs(previous, catalog);
+
+    outPath = writeCacheFile(context, VANILLA_CATALOG_FILE, catalog, {
+      formatVersion: VANILLA_CATALOG_FORMAT_VERSION,
+      inputs: { contentRoot },
+    }).fullPath;
+  } catch (err) {
+    console.warn("[Stardew Modding Schema] Generating the vanilla item catalog failed.");
+    console.warn(err);
+    vscode.window.showErrorMessage(
+      `Stardew Modding Schema: Could not generate vanilla item IDs: ${(err as Error).message}`
+    );
+    return;
+  }
+
+  reportCatalogDiff(contentRoot, outPath, diff);
+
+  reloadItemRegistries("vanilla catalog regenerated");
+
+  const summary = `Vanilla item IDs regenerated: +${diff.added.length} added, -${diff.removed.length} removed, ~${diff.renamed.length} renamed.`;
+  const choice = await vscode.window.showInformationMessage(
+    `Stardew Modding Schema: ${summary}`,
+    "Show Changes"
+  );
+  if (choice === "Show Changes") {
+    getOutputChannel().show(true);
+  }
+}
+
+export function registerVanillaCatalogCommands(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand("stardewModdingSchema.generateVanillaItemIds", () => {
+      void generateVanillaItemIds(context);
+    })
+  );
+}
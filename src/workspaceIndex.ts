@@ -0,0 +1,253 @@
+// src/workspaceIndex.ts
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { Worker } from "worker_threads";
+import {
+  buildEntitySections,
+  buildItemSections,
+  InstalledEntityInfo,
+  InstalledItemInfo,
+  WorkspaceModScan,
+  WorkspaceScanReply,
+  WorkspaceScanRequest,
+} from "./installedScanner";
+import { ItemRegistry } from "./itemRegistry";
+import { ItemLookup } from "./stardewIds";
+
+/**
+ * Live, in-memory index of the mods open in the workspace.
+ *
+ * Whenever a JSON file of a mod inside a workspace folder is opened, edited or saved,
+ * that mod folder is rescanned with the installed scanner's logic (reading unsaved
+ * editor text instead of disk) in a worker thread, and its items and entities are
+ * layered onto the registry as source "workspace". Nothing is written to storage; the installed index still
+ * needs a rebuild for other mods to see the changes.
+ */
+
+const RESCAN_DEBOUNCE_MS = 300;
+
+function isJsonDocument(doc: vscode.TextDocument): boolean {
+  return doc.uri.scheme === "file" && (doc.languageId === "json" || doc.languageId === "jsonc");
+}
+
+function isInside(dir: string, file: string): boolean {
+  const rel = path.relative(dir, file);
+  return !!rel && !rel.startsWith("..") && !path.isAbsolute(rel);
+}
+
+/**
+ * Folder of the nearest manifest.json above the document, as long as it lies inside
+ * the document's workspace folder.
+ */
+function findWorkspaceModFolder(doc: vscode.TextDocument): string | undefined {
+  const workspaceFolder = vscode.workspace.getWorkspaceFolder(doc.uri);
+  if (!workspaceFolder || workspaceFolder.uri.scheme !== "file") return;
+
+  const root = workspaceFolder.uri.fsPath;
+  let dir = path.dirname(doc.uri.fsPath);
+  for (let depth = 0; depth < 8; depth++) {
+    if (fs.existsSync(path.join(dir, "manifest.json"))) return dir;
+    if (dir === root || !isInside(root, dir)) break;
+    dir = path.dirname(dir);
+  }
+  return;
+}
+
+/**
+ * One long-lived worker running the workspace scans in order. Restarted on the next
+ * scan if it dies.
+ */
+class WorkspaceScanner implements vscode.Disposable {
+  private worker: Worker | null = null;
+  private nextId = 0;
+  private readonly pending = new Map<number, (reply: WorkspaceScanReply) => void>();
+  private sentBase: ItemLookup | undefined; // base lookup the worker's base IDs come from
+
+  public scan(
+    modDir: string,
+    openDocuments: Map<string, string>,
+    base: ItemLookup
+  ): Promise<WorkspaceModScan> {
+    const worker = this.ensureWorker();
+    const request: WorkspaceScanRequest = {
+      id: ++this.nextId,
+      modDir,
+      openDocuments: Array.from(openDocuments),
+    };
+
+    // Vanilla/custom IDs are never indexed as mod items, as in the installed scan
+    if (base !== this.sentBase) {
+      this.sentBase = base;
+      request.baseQualifiedIds = [];
+      for (const entry of base.byQualifiedId.values()) {
+        if (entry.source === "vanilla" || entry.source === "custom") {
+          request.baseQualifiedIds.push(entry.qualifiedId);
+        }
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(request.id, (reply) =>
+        "error" in reply ? reject(new Error(reply.error)) : resolve(reply.scan)
+      );
+      worker.postMessage(request);
+    });
+  }
+
+  private ensureWorker(): Worker {
+    if (this.worker) return this.worker;
+
+    const worker = new Worker(path.join(__dirname, "workspaceScannerWorker.js"));
+    worker.unref();
+    worker.on("message", (reply: WorkspaceScanReply) => {
+      const settle = this.pending.get(reply.id);
+      this.pending.delete(reply.id);
+      settle?.(reply);
+    });
+    const fail = (error: string) => {
+      if (this.worker !== worker) return;
+      this.worker = null;
+      this.sentBase = undefined;
+      for (const [id, settle] of this.pending) settle({ id, error });
+      this.pending.clear();
+    };
+    worker.on("error", (err) => fail(err.stack ?? err.message));
+    worker.on("exit", (code) => fail(`Workspace scanner exited with code ${code}.`));
+
+    this.worker = worker;
+    return worker;
+  }
+
+  public dispose(): void {
+    const worker = this.worker;
+    this.worker = null;
+    this.pending.clear();
+    void worker?.terminate();
+  }
+}
+
+export function registerWorkspaceIndexSupport(
+  context: vscode.ExtensionContext,
+  registry: ItemRegistry
+): vscode.Disposable {
+  const disposables: vscode.Disposable[] = [];
+
+  // mod folder -> what it adds, in the order the mods were first seen
+  const modScans = new Map<string, WorkspaceModScan>();
+  const timers = new Map<string, NodeJS.Timeout>();
+  const generations = new Map<string, number>(); // mod folder -> number of its latest scan
+  let scanCount = 0;
+  const scanner = new WorkspaceScanner();
+  let published = "null";
+
+  const isEnabled = () =>
+    vscode.workspace.getConfiguration("stardewModdingSchema").get<boolean>("liveWorkspaceIndex") !==
+    false;
+
+  const publish = () => {
+    const merged = new Map<string, InstalledItemInfo>();
+    const entities = new Map<string, InstalledEntityInfo>(); // "<kind>:<lowercased id>"
+    // Folders so display names can be localized from i18n/<locale>.json, as for installed mods
+    const mods: Record<string, { name: string; folder: string }> = {};
+    for (const [modDir, scan] of modScans) {
+      for (const [qualifiedId, info] of scan.items) {
+        if (!merged.has(qualifiedId)) merged.set(qualifiedId, info);
+      }
+      for (const entity of scan.entities) {
+        const key = `${entity.kind}:${entity.id.toLowerCase()}`;
+        if (!entities.has(key)) entities.set(key, entity);
+      }
+      mods[scan.modId] ??= { name: scan.modName, folder: modDir };
+    }
+
+    const json =
+      merged.size > 0 || entities.size > 0
+        ? { ...buildItemSections(merged), entities: buildEntitySections(entities.values()), mods }
+        : null;
+
+    // Most edits don't change any item; skip the registry swap (and every rebuild of
+    // derived completion state it triggers) when nothing did.
+    const serialized = JSON.stringify(json);
+    if (serialized === published) return;
+    published = serialized;
+    registry.setWorkspaceItems(json);
+  };
+
+  const rescan = async (modDir: string) => {
+    timers.delete(modDir);
+    const generation = ++scanCount;
+    generations.set(modDir, generation);
+
+    if (!isEnabled() || !fs.existsSync(path.join(modDir, "manifest.json"))) {
+      modScans.delete(modDir);
+      publish();
+      return;
+    }
+
+    const openDocuments = new Map<string, string>();
+    for (const doc of vscode.workspace.textDocuments) {
+      if (isJsonDocument(doc) && isInside(modDir, doc.uri.fsPath)) {
+        openDocuments.set(doc.uri.fsPath, doc.getText());
+      }
+    }
+
+    let scan: WorkspaceModScan;
+    try {
+      scan = await scanner.scan(modDir, openDocuments, registry.baseLookup);
+    } catch (err) {
+      console.warn(`[Stardew Modding Schema] Live indexing of '${modDir}' failed.`);
+      console.warn(err);
+      return;
+    }
+
+    // A newer scan of this mod (or a reset) superseded this one while it ran
+    if (generations.get(modDir) !== generation) return;
+    modScans.set(modDir, scan);
+    publish();
+  };
+
+  const schedule = (doc: vscode.TextDocument, delayMs = RESCAN_DEBOUNCE_MS) => {
+    if (!isJsonDocument(doc) || !isEnabled()) return;
+    const modDir = findWorkspaceModFolder(doc);
+    if (!modDir) return;
+
+    const pending = timers.get(modDir);
+    if (pending) clearTimeout(pending);
+    timers.set(modDir, setTimeout(() => void rescan(modDir), delayMs));
+  };
+
+  const reset = () => {
+    for (const timer of timers.values()) clearTimeout(timer);
+    timers.clear();
+    generations.clear();
+    modScans.clear();
+    publish();
+    vscode.workspace.textDocuments.forEach((doc) => schedule(doc, 0));
+  };
+
+  vscode.workspace.textDocuments.forEach((doc) => schedule(doc, 0));
+  disposables.push(
+    vscode.workspace.onDidOpenTextDocument((doc) => {
+      const modDir = isJsonDocument(doc) ? findWorkspaceModFolder(doc) : undefined;
+      if (modDir && !modScans.has(modDir)) schedule(doc, 0);
+    }),
+    vscode.workspace.onDidChangeTextDocument((e) => schedule(e.document)),
+    vscode.workspace.onDidSaveTextDocument((doc) => schedule(doc, 0)),
+    // Unsaved edits are dropped on close; fall back to the file on disk
+    vscode.workspace.onDidCloseTextDocument((doc) => schedule(doc)),
+    vscode.workspace.onDidChangeWorkspaceFolders(reset),
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("stardewModdingSchema.liveWorkspaceIndex")) reset();
+    }),
+    {
+      dispose: () => {
+        for (const timer of timers.values()) clearTimeout(timer);
+        timers.clear();
+      },
+    },
+    scanner
+  );
+
+  return vscode.Disposable.from(...disposables);
+}
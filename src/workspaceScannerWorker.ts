@@ -0,0 +1,22 @@
+// src/workspaceScannerWorker.ts
+import { parentPort } from "worker_threads";
+import { scanWorkspaceMod, WorkspaceScanReply, WorkspaceScanRequest } from "./installedScanner";
+
+/**
+ * Worker thread entry for live workspace indexing: stays alive and answers each
+ * WorkspaceScanRequest with the items and entities of that mod folder, so parsing a mod on every
+ * edit never blocks the extension host.
+ */
+const post = (reply: WorkspaceScanReply) => parentPort?.postMessage(reply);
+
+let baseQualifiedIds = new Set<string>();
+
+parentPort?.on("message", (request: WorkspaceScanRequest) => {
+  if (request.baseQualifiedIds) baseQualifiedIds = new Set(request.baseQualifiedIds);
+  try {
+    const scan = scanWorkspaceMod(request.modDir, baseQualifiedIds, new Map(request.openDocuments));
+    post({ id: request.id, scan });
+  } catch (err) {
+    post({ id: request.id, error: err instanceof Error ? err.stack ?? err.message : String(err) });
+  }
+});